@@ -1,22 +1,42 @@
 import { NextRequest } from "next/server";
 import { createWorker, PSM } from "tesseract.js";
+import { complete, isUsageLimitError, requiresApiKey, webResearchEnabled } from "@/lib/llm/provider";
+import { completeWithFallback, ModelSwitch, streamWithFallback } from "@/lib/llm/fallback";
+import { ChatMessage, ProviderError, ReasoningOptions, ResponseFormat } from "@/lib/llm/types";
+import { completeStructured, JsonSchema, StructuredOutputError } from "@/lib/llm/structured";
+import { withFixture } from "@/lib/llm/fixtures";
+import { findModel } from "@/lib/llm/catalog";
+import { DEFAULT_CHAT_MODEL, DEFAULT_VISION_MODEL } from "@/lib/models";
+import { abortUntilDetached, isAbortError } from "@/lib/llm/abort";
+import { createUsageMeter, UsageMeter } from "@/lib/llm/usage";
+import { compactRounds, fitToTokens, planContextBudget } from "@/lib/llm/context";
+import { resumableResponse } from "@/lib/sse-replay";
+import { isValidSeed, MAX_SEED } from "@/lib/seed";
 
 export const runtime = "nodejs";
 
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
-
-const MODEL_IDS = {
+// Short names older clients send instead of an OpenRouter model id
+const LEGACY_MODEL_ALIASES: Record<string, string> = {
   nemotron9b: "nvidia/nemotron-nano-9b-v2:free",
-  nemotron30b: "nvidia/nemotron-3-nano-30b-a3b:free",
-} as const;
-const VISION_MODEL_ID = "nvidia/nemotron-nano-12b-v2-vl:free";
-
-type ChatModel = keyof typeof MODEL_IDS;
-type ChatMessage = {
-  role: "system" | "user" | "assistant";
-  content: string;
+  nemotron30b: DEFAULT_CHAT_MODEL,
+};
+
+// Tried in order when a model is rate limited, out of credits or down.
+// Any other picked model falls back to the default chat model. The vision
+// model has no fallback: the text models can't read images.
+const MODEL_FALLBACKS: Record<string, string[]> = {
+  [DEFAULT_CHAT_MODEL]: [LEGACY_MODEL_ALIASES.nemotron9b],
+  [LEGACY_MODEL_ALIASES.nemotron9b]: [DEFAULT_CHAT_MODEL],
 };
 
+function fallbacksFor(model: string): string[] {
+  return MODEL_FALLBACKS[model] ?? [DEFAULT_CHAT_MODEL];
+}
+
+/** `content` and `reasoning` events carry the whole reply so far; a resume needs only the latest */
+const chatSnapshotKey = (event: Record<string, unknown>) =>
+  event.type === "content" || event.type === "reasoning" ? String(event.type) : undefined;
+
 const CHAT_SYSTEM_PROMPT = [
   "You are DeepConverge, a productivity-focused AI assistant.",
   "This is a live chat UX: default to concise, practical, and context-aware answers.",
@@ -49,6 +69,9 @@ const BLOCKED_CHAT_PATTERNS: RegExp[] = [
 ];
 
 const MAX_CONVERGENCE_ROUNDS = 4;
+/** Token headroom kept out of the context budget for replies and system prompts */
+const CONVERGENT_REPLY_RESERVE = 2000;
+const DIRECT_REPLY_RESERVE = 9000;
 const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
 const PDF_MAX_CHARS = 60000;
 const PDF_CHUNK_CHARS = 3800;
@@ -88,9 +111,20 @@ interface WebSearchResult {
   snippet: string;
 }
 
-async function searchWeb(
+function searchWeb(
+  query: string,
+  maxResults = 6,
+  signal?: AbortSignal
+): Promise<WebSearchResult[]> {
+  return withFixture("web-search", { query, maxResults }, () =>
+    fetchWebResults(query, maxResults, signal)
+  );
+}
+
+async function fetchWebResults(
   query: string,
-  maxResults = 6
+  maxResults: number,
+  signal?: AbortSignal
 ): Promise<WebSearchResult[]> {
   const results: WebSearchResult[] = [];
 
@@ -103,6 +137,7 @@ async function searchWeb(
           "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
         Accept: "text/html",
       },
+      signal,
     });
     if (resp.ok) {
       const html = await resp.text();
@@ -136,6 +171,8 @@ async function searchWeb(
       }
     }
   } catch (error) {
+    // Rethrown so an aborted search is never recorded as "no results"
+    if (isAbortError(error)) throw error;
     console.error("[web-search] DuckDuckGo error:", error);
   }
 
@@ -143,7 +180,7 @@ async function searchWeb(
   if (results.length === 0) {
     try {
       const wikiUrl = `https://en.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(query)}&format=json&srlimit=${maxResults}&origin=*`;
-      const resp = await fetch(wikiUrl);
+      const resp = await fetch(wikiUrl, { signal });
       if (resp.ok) {
         const data = await resp.json();
         if (data?.query?.search) {
@@ -159,6 +196,7 @@ async function searchWeb(
         }
       }
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error("[web-search] Wikipedia fallback error:", error);
     }
   }
@@ -202,37 +240,7 @@ function createDoneSseResponse(content: string) {
   });
 }
 
-function extractText(value: unknown): string {
-  if (typeof value === "string") return value;
-  if (Array.isArray(value)) {
-    return value
-      .map((item) =>
-        typeof item === "string"
-          ? item
-          : typeof item === "object" &&
-            item !== null &&
-            "text" in item &&
-            typeof (item as { text?: unknown }).text === "string"
-          ? (item as { text: string }).text
-          : ""
-      )
-      .join("");
-  }
-  return "";
-}
-
-function extractAssistantText(payload: unknown): string {
-  if (!payload || typeof payload !== "object") return "";
-  const firstChoice = (payload as { choices?: Array<{ message?: { content?: unknown; reasoning?: unknown } }> })
-    .choices?.[0];
-  if (!firstChoice?.message) return "";
-  const content = extractText(firstChoice.message.content);
-  if (content.trim()) return content.trim();
-  const reasoning = extractText(firstChoice.message.reasoning);
-  return reasoning.trim();
-}
-
-function parseJudgeJson(raw: string): {
+interface JudgeVerdict {
   convergence_score: number;
   converged: boolean;
   synthesis: string;
@@ -240,42 +248,38 @@ function parseJudgeJson(raw: string): {
   unresolved_points: string[];
   clarifying_questions: string[];
   final_direction: string;
-} | null {
-  const fenced = raw.match(/```json\s*([\s\S]*?)```/i)?.[1];
-  const candidate =
-    fenced ??
-    raw.match(/\{[\s\S]*\}/)?.[0] ??
-    "";
-  if (!candidate) return null;
+}
 
-  try {
-    const parsed = JSON.parse(candidate) as Record<string, unknown>;
-    return {
-      convergence_score:
-        typeof parsed.convergence_score === "number"
-          ? Math.max(0, Math.min(100, parsed.convergence_score))
-          : 0,
-      converged: parsed.converged === true,
-      synthesis:
-        typeof parsed.synthesis === "string" ? parsed.synthesis.trim() : "",
-      direction_for_next_round:
-        typeof parsed.direction_for_next_round === "string"
-          ? parsed.direction_for_next_round.trim()
-          : "",
-      unresolved_points: Array.isArray(parsed.unresolved_points)
-        ? parsed.unresolved_points.filter((x): x is string => typeof x === "string")
-        : [],
-      clarifying_questions: Array.isArray(parsed.clarifying_questions)
-        ? parsed.clarifying_questions.filter((x): x is string => typeof x === "string")
-        : [],
-      final_direction:
-        typeof parsed.final_direction === "string"
-          ? parsed.final_direction.trim()
-          : "",
-    };
-  } catch {
-    return null;
-  }
+const JUDGE_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: [
+    "convergence_score",
+    "converged",
+    "synthesis",
+    "direction_for_next_round",
+    "unresolved_points",
+    "clarifying_questions",
+    "final_direction",
+  ],
+  properties: {
+    convergence_score: { type: "number", minimum: 0, maximum: 100 },
+    converged: { type: "boolean" },
+    synthesis: { type: "string" },
+    direction_for_next_round: { type: "string" },
+    unresolved_points: { type: "array", items: { type: "string" } },
+    clarifying_questions: { type: "array", items: { type: "string" } },
+    final_direction: { type: "string" },
+  },
+};
+
+function normalizeJudgeVerdict(verdict: JudgeVerdict): JudgeVerdict {
+  return {
+    ...verdict,
+    synthesis: verdict.synthesis.trim(),
+    direction_for_next_round: verdict.direction_for_next_round.trim(),
+    final_direction: verdict.final_direction.trim(),
+  };
 }
 
 function estimateAgreementScore(a: string, b: string): number {
@@ -300,7 +304,11 @@ function statusFromScore(score: number, converged: boolean, needsInput: boolean)
   return "running";
 }
 
-function buildImageAugmentedTask(userMessage: string, imageAnalysis: string): string {
+function buildImageAugmentedTask(
+  userMessage: string,
+  imageAnalysis: string,
+  maxTokens: number
+): string {
   const normalizedTask = userMessage.trim() || "Analyze the uploaded image and help the user.";
   return [
     `User request: ${normalizedTask}`,
@@ -308,7 +316,7 @@ function buildImageAugmentedTask(userMessage: string, imageAnalysis: string): st
     "Use the vision context as factual evidence, then complete the user request clearly and practically.",
     "",
     "Image analysis:",
-    imageAnalysis.slice(0, 5000),
+    fitToTokens(imageAnalysis, maxTokens),
   ].join("\n");
 }
 
@@ -576,6 +584,7 @@ async function summarizePdfForTask(params: {
   model: string;
   userMessage: string;
   extractedText: string;
+  context?: CallContext;
 }) {
   const trimmed = params.extractedText.trim();
   if (!trimmed) {
@@ -590,6 +599,8 @@ async function summarizePdfForTask(params: {
     const chunkSummary = await completeOnce({
       apiKey: params.apiKey,
       model: params.model,
+      context: params.context,
+      label: "pdf-summary",
       temperature: 0.2,
       maxTokens: 550,
       reasoning: { effort: "none", exclude: true },
@@ -618,6 +629,8 @@ async function summarizePdfForTask(params: {
   return completeOnce({
     apiKey: params.apiKey,
     model: params.model,
+    context: params.context,
+    label: "pdf-summary",
     temperature: 0.2,
     maxTokens: 750,
     reasoning: { effort: "none", exclude: true },
@@ -640,7 +653,7 @@ async function summarizePdfForTask(params: {
   });
 }
 
-function buildPdfAugmentedTask(userMessage: string, pdfSummary: string) {
+function buildPdfAugmentedTask(userMessage: string, pdfSummary: string, maxTokens: number) {
   const normalizedTask = userMessage.trim() || "Analyze the uploaded PDF and help the user.";
   const summary =
     pdfSummary.trim() ||
@@ -651,61 +664,61 @@ function buildPdfAugmentedTask(userMessage: string, pdfSummary: string) {
     "Use this summarized document context as primary evidence and answer accurately.",
     "",
     "Summarized PDF context:",
-    summary.slice(0, 6000),
+    fitToTokens(summary, maxTokens),
   ].join("\n");
 }
 
 async function analyzeImageWithVision(params: {
   apiKey: string;
+  model: string;
   imageDataUrl: string;
   userMessage: string;
+  context?: CallContext;
 }) {
-  const response = await fetch(OPENROUTER_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${params.apiKey}`,
-      "HTTP-Referer": process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
-      "X-Title": "DeepConverge AI",
-    },
-    body: JSON.stringify({
-      model: VISION_MODEL_ID,
-      stream: false,
-      max_tokens: 1200,
-      temperature: 0.2,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a vision analysis agent. Return concise, accurate visual observations, extracted text, and relevant details for downstream task execution.",
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: [
-                `User prompt: ${params.userMessage || "Analyze this image."}`,
-                "Produce: 1) key visual facts, 2) any text/OCR, 3) constraints or ambiguities, 4) short actionable interpretation.",
-              ].join("\n"),
-            },
-            {
-              type: "image_url",
-              image_url: { url: params.imageDataUrl },
-            },
-          ],
-        },
-      ],
-    }),
+  const result = await complete({
+    apiKey: params.apiKey,
+    model: params.model,
+    maxTokens: 1200,
+    temperature: 0.2,
+    signal: params.context?.signal,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You are a vision analysis agent. Return concise, accurate visual observations, extracted text, and relevant details for downstream task execution.",
+      },
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: [
+              `User prompt: ${params.userMessage || "Analyze this image."}`,
+              "Produce: 1) key visual facts, 2) any text/OCR, 3) constraints or ambiguities, 4) short actionable interpretation.",
+            ].join("\n"),
+          },
+          {
+            type: "image_url",
+            image_url: { url: params.imageDataUrl },
+          },
+        ],
+      },
+    ],
   });
+  params.context?.meter.record(result.usage, "vision");
+  return result.content || result.reasoning;
+}
 
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`Vision model error: ${response.status} - ${errText}`);
-  }
-
-  const json = await response.json();
-  return extractAssistantText(json);
+/** Per-request bookkeeping shared by every upstream call */
+interface CallContext {
+  meter: UsageMeter;
+  /** Aborted when the client goes away; cancels every remaining call */
+  signal: AbortSignal;
+  /** Model that answered the most recent text completion */
+  model: string;
+  /** Sent with every text completion; set on seeded convergent runs */
+  seed?: number;
+  onModelSwitch?: (event: ModelSwitch, label: string) => void;
 }
 
 async function completeOnce(params: {
@@ -714,33 +727,67 @@ async function completeOnce(params: {
   messages: ChatMessage[];
   maxTokens?: number;
   temperature?: number;
-  reasoning?: { effort?: "none" | "low" | "medium" | "high"; exclude?: boolean };
+  reasoning?: ReasoningOptions;
+  responseFormat?: ResponseFormat;
+  context?: CallContext;
+  /** Which step made the call, reported with its usage */
+  label?: string;
 }) {
-  const response = await fetch(OPENROUTER_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${params.apiKey}`,
-      "HTTP-Referer": process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
-      "X-Title": "DeepConverge AI",
-    },
-    body: JSON.stringify({
+  const label = params.label ?? "completion";
+  const result = await completeWithFallback(
+    {
+      apiKey: params.apiKey,
       model: params.model,
       messages: params.messages,
-      stream: false,
-      max_tokens: params.maxTokens ?? 1024,
+      maxTokens: params.maxTokens ?? 1024,
       temperature: params.temperature ?? 0.4,
       reasoning: params.reasoning,
-    }),
-  });
-
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${errText}`);
+      responseFormat: params.responseFormat,
+      signal: params.context?.signal,
+      seed: params.context?.seed,
+    },
+    fallbacksFor(params.model),
+    (event) => params.context?.onModelSwitch?.(event, label)
+  );
+  if (params.context) {
+    params.context.meter.record(result.usage, label);
+    params.context.model = result.model;
   }
+  return result.content || result.reasoning;
+}
 
-  const json = await response.json();
-  return extractAssistantText(json);
+/** Folds debate rounds that no longer fit the context budget into a running summary */
+async function summarizeRounds(params: {
+  apiKey: string;
+  model: string;
+  previousSummary: string;
+  folded: string[];
+  maxTokens: number;
+  context?: CallContext;
+}) {
+  const earlier = params.previousSummary
+    ? `Summary so far:\n${params.previousSummary}\n\n`
+    : "";
+  return completeOnce({
+    apiKey: params.apiKey,
+    model: params.model,
+    context: params.context,
+    label: "transcript-summary",
+    temperature: 0.2,
+    maxTokens: params.maxTokens,
+    reasoning: { effort: "none", exclude: true },
+    messages: [
+      {
+        role: "system",
+        content:
+          "Summarize earlier rounds of a multi-agent debate. Keep each side's key proposals, the risks raised, points both sides agreed on, and the Judge's direction. Use short bullets and do not invent details.",
+      },
+      {
+        role: "user",
+        content: `${earlier}New rounds to fold in:\n${params.folded.join("\n\n")}`,
+      },
+    ],
+  });
 }
 
 export async function POST(request: NextRequest) {
@@ -748,7 +795,8 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const message = typeof body?.message === "string" ? body.message.trim() : "";
     const convergentThinking = body?.convergentThinking === true;
-    const webSearchEnabled = body?.webSearch === true;
+    // Offline backends skip the search even when the toggle is on
+    const webSearchEnabled = body?.webSearch === true && webResearchEnabled();
     const imageDataUrlRaw =
       typeof body?.imageDataUrl === "string" ? body.imageDataUrl.trim() : "";
     const pdfDataUrlRaw =
@@ -785,15 +833,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const requestedModel = typeof body?.model === "string" ? body.model.trim() : "";
+    const chatModel = await findModel(
+      Object.hasOwn(LEGACY_MODEL_ALIASES, requestedModel)
+        ? LEGACY_MODEL_ALIASES[requestedModel]
+        : requestedModel || DEFAULT_CHAT_MODEL
+    );
+    if (!chatModel) {
+      return new Response(JSON.stringify({ error: `Unknown model: ${requestedModel}` }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     const apiKey = typeof body?.apiKey === "string" ? body.apiKey.trim() : "";
-    if (!apiKey) {
+    if (!apiKey && requiresApiKey()) {
       return new Response(
         JSON.stringify({ error: "API key is required. Please add your OpenRouter API key in Settings." }),
         { status: 401, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    const rawTask = message || "Analyze the uploaded file.";
+    // Convergent runs with the same seed sample the same way, where the provider supports it
+    const seed: unknown = body?.seed;
+    if (seed !== undefined && !isValidSeed(seed)) {
+      return new Response(JSON.stringify({ error: `seed must be an integer from 0 to ${MAX_SEED}` }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Leave room for the longest reply each mode asks for plus system prompts
+    const budget = planContextBudget(
+      chatModel.contextLength,
+      convergentThinking ? CONVERGENT_REPLY_RESERVE : DIRECT_REPLY_RESERVE
+    );
+    const rawTask = fitToTokens(message || "Analyze the uploaded file.", budget.task);
     const trimmedUserMessage = message.trim();
     if (trimmedUserMessage) {
       if (BLOCKED_CHAT_PATTERNS.some((pattern) => pattern.test(trimmedUserMessage))) {
@@ -804,9 +879,14 @@ export async function POST(request: NextRequest) {
 
     }
 
-    // Always use 30B model. Convergent ON = reasoning mode, OFF = basic prompt.
-    const resolvedModel: ChatModel = "nemotron30b";
-    const resolvedModelId = MODEL_IDS[resolvedModel];
+    // Cancels model calls, PDF summaries and searches once the client is gone.
+    // Detached once the reply streams, so a dropped client can resume it.
+    const upstream = abortUntilDetached(request);
+
+    // Convergent ON = reasoning mode, OFF = basic prompt; both use the picked model.
+    const resolvedModelId = chatModel.id;
+    // Images go to the picked model when its catalog entry takes image input
+    const visionModelId = chatModel.vision ? chatModel.id : DEFAULT_VISION_MODEL;
 
     if (convergentThinking) {
       const encoder = new TextEncoder();
@@ -836,22 +916,35 @@ export async function POST(request: NextRequest) {
           };
 
           let finalContent = "";
+          const convergentModel = resolvedModelId;
+          const context: CallContext = {
+            meter: createUsageMeter((usage, total, label) => {
+              send({ type: "usage", label, usage, total });
+            }),
+            signal: upstream.signal,
+            model: convergentModel,
+            seed,
+            onModelSwitch: (event, label) => {
+              send({ type: "model-switched", label, ...event });
+            },
+          };
 
           try {
-            const convergentModel = MODEL_IDS["nemotron30b"];
             let taskMessage = rawTask;
 
             if (hasImage) {
               send({
                 type: "status",
-                content: "Analyzing image with the Nemotron Nano 12B V2 model.",
+                content: `Analyzing image with ${visionModelId}.`,
               });
               const imageAnalysis = await analyzeImageWithVision({
                 apiKey,
+                model: visionModelId,
                 imageDataUrl: imageDataUrlRaw,
                 userMessage: rawTask,
+                context,
               });
-              taskMessage = buildImageAugmentedTask(rawTask, imageAnalysis);
+              taskMessage = buildImageAugmentedTask(rawTask, imageAnalysis, budget.attachments);
             }
 
             if (hasPdf) {
@@ -883,14 +976,15 @@ export async function POST(request: NextRequest) {
                 model: convergentModel,
                 userMessage: rawTask,
                 extractedText: extraction.text,
+                context,
               });
-              taskMessage = buildPdfAugmentedTask(taskMessage, pdfSummary);
+              taskMessage = buildPdfAugmentedTask(taskMessage, pdfSummary, budget.attachments);
             }
 
             // ── Web search phase (convergent) ──
             if (webSearchEnabled) {
               send({ type: "web-search-start" });
-              const searchResults = await searchWeb(taskMessage);
+              const searchResults = await searchWeb(taskMessage, 6, upstream.signal);
               send({
                 type: "web-search-done",
                 results: searchResults.map((r) => ({
@@ -899,7 +993,7 @@ export async function POST(request: NextRequest) {
                 })),
               });
               if (searchResults.length > 0) {
-                taskMessage = `${formatSearchContext(searchResults)}\n\nUser question: ${taskMessage}`;
+                taskMessage = `${fitToTokens(formatSearchContext(searchResults), budget.search)}\n\nUser question: ${taskMessage}`;
               }
             }
 
@@ -916,6 +1010,8 @@ export async function POST(request: NextRequest) {
                 (await completeOnce({
                   apiKey,
                   model: convergentModel,
+                  context,
+                  label: "reply",
                   temperature: 0.3,
                   maxTokens: 120,
                   reasoning: { effort: "none", exclude: true },
@@ -938,7 +1034,13 @@ export async function POST(request: NextRequest) {
                 status: "converged",
               });
               send({ type: "content", content: finalContent });
-              send({ type: "done", reasoning: "", content: finalContent });
+              send({
+                type: "done",
+                reasoning: "",
+                content: finalContent,
+                usage: context.meter.total(),
+                model: context.model,
+              });
               safeClose();
               return;
             }
@@ -954,6 +1056,8 @@ export async function POST(request: NextRequest) {
             const kickoff = await completeOnce({
               apiKey,
               model: convergentModel,
+              context,
+              label: "kickoff",
               temperature: 0.3,
               maxTokens: 350,
               reasoning: { effort: "none", exclude: true },
@@ -985,17 +1089,39 @@ export async function POST(request: NextRequest) {
             let latestA = "";
             let latestB = "";
             let latestJudgeDirection = kickoff;
-            const transcript: string[] = [
-              `User task: ${taskMessage}`,
-              `Judge kickoff: ${kickoff}`,
-            ];
+            // One entry per finished round; older ones are folded into
+            // earlierSummary once they no longer fit the rounds budget.
+            let rounds: string[] = [];
+            let earlierSummary = "";
 
             for (let round = 1; round <= MAX_CONVERGENCE_ROUNDS; round++) {
-              const contextTail = transcript.slice(-10).join("\n\n");
+              const compacted = await compactRounds({
+                rounds,
+                summary: earlierSummary,
+                budget: budget.rounds,
+                summarize: (previousSummary, folded, maxTokens) =>
+                  summarizeRounds({
+                    apiKey,
+                    model: convergentModel,
+                    previousSummary,
+                    folded,
+                    maxTokens,
+                    context,
+                  }),
+              });
+              rounds = compacted.recent;
+              earlierSummary = compacted.summary;
+              const contextTail = [
+                `Judge kickoff: ${kickoff}`,
+                ...(earlierSummary ? [`Summary of earlier rounds: ${earlierSummary}`] : []),
+                ...rounds,
+              ].join("\n\n");
 
               latestA = await completeOnce({
                 apiKey,
                 model: convergentModel,
+                context,
+                label: "debater_a",
                 temperature: 0.55,
                 maxTokens: 700,
                 reasoning: { effort: "none", exclude: true },
@@ -1021,6 +1147,8 @@ export async function POST(request: NextRequest) {
               latestB = await completeOnce({
                 apiKey,
                 model: convergentModel,
+                context,
+                label: "debater_b",
                 temperature: 0.6,
                 maxTokens: 700,
                 reasoning: { effort: "none", exclude: true },
@@ -1043,25 +1171,55 @@ export async function POST(request: NextRequest) {
                 content: latestB,
               });
 
-              const judgeRaw = await completeOnce({
-                apiKey,
-                model: convergentModel,
-                temperature: 0.2,
-                maxTokens: 900,
-                reasoning: { effort: "none", exclude: true },
-                messages: [
-                  withSafetySystem(
-                    "You are the Judge. Compare Debater A vs Debater B and return strict JSON only with keys: convergence_score (0-100), converged (boolean), synthesis, direction_for_next_round, unresolved_points (string array), clarifying_questions (string array), final_direction. Keep synthesis concise and avoid code unless explicitly requested.",
-                    { webSearchEnabled }
-                  ),
-                  {
-                    role: "user",
-                    content: `Task: ${taskMessage}\n\nDebater A:\n${latestA}\n\nDebater B:\n${latestB}\n\nCurrent round: ${round}\n\nIf convergence is high, set converged=true and final_direction. If convergence is low and this is final round (${MAX_CONVERGENCE_ROUNDS}), include 2-4 clarifying_questions.`,
-                  },
-                ],
-              });
+              const judgeMessages: ChatMessage[] = [
+                withSafetySystem(
+                  "You are the Judge. Compare Debater A vs Debater B and return strict JSON only with keys: convergence_score (0-100), converged (boolean), synthesis, direction_for_next_round, unresolved_points (string array), clarifying_questions (string array), final_direction. Keep synthesis concise and avoid code unless explicitly requested.",
+                  { webSearchEnabled }
+                ),
+                {
+                  role: "user",
+                  content: `Task: ${taskMessage}\n\nDebater A:\n${latestA}\n\nDebater B:\n${latestB}\n\nCurrent round: ${round}\n\nIf convergence is high, set converged=true and final_direction. If convergence is low and this is final round (${MAX_CONVERGENCE_ROUNDS}), include 2-4 clarifying_questions.`,
+                },
+              ];
+
+              let judgeParsed: JudgeVerdict | null = null;
+              try {
+                const { value, repairs } = await completeStructured<JudgeVerdict>({
+                  name: "judge_verdict",
+                  schema: JUDGE_SCHEMA,
+                  messages: judgeMessages,
+                  ask: (messages, responseFormat) =>
+                    completeOnce({
+                      apiKey,
+                      model: convergentModel,
+                      context,
+                      label: "judge",
+                      temperature: 0.2,
+                      maxTokens: 900,
+                      reasoning: { effort: "none", exclude: true },
+                      responseFormat,
+                      messages,
+                    }),
+                });
+                judgeParsed = normalizeJudgeVerdict(value);
+                if (repairs > 0) {
+                  console.warn(`[convergent] judge output repaired after ${repairs} re-ask(s)`);
+                }
+              } catch (error) {
+                if (!(error instanceof StructuredOutputError)) throw error;
+                console.warn("[convergent] judge output invalid:", error.message);
+                const lastErrors = error.attempts[error.attempts.length - 1]?.errors ?? [];
+                send({
+                  type: "convergent_log",
+                  role: "judge_parse_error",
+                  round,
+                  content: [
+                    `The Judge's reply did not match the expected format after ${error.attempts.length} attempts, so this round's score is estimated from how closely the debaters agree.`,
+                    ...lastErrors.slice(0, 5).map((e) => `- ${e}`),
+                  ].join("\n"),
+                });
+              }
 
-              const judgeParsed = parseJudgeJson(judgeRaw);
               const judgeSynthesis =
                 judgeParsed?.synthesis ||
                 "The agents are still refining toward a practical consensus.";
@@ -1096,10 +1254,12 @@ export async function POST(request: NextRequest) {
                 status: statusFromScore(score, converged, needsInput),
               });
 
-              transcript.push(
-                `Round ${round} Debater A: ${latestA}`,
-                `Round ${round} Debater B: ${latestB}`,
-                `Round ${round} Judge: ${judgeSynthesis}`,
+              rounds.push(
+                [
+                  `Round ${round} Debater A: ${latestA}`,
+                  `Round ${round} Debater B: ${latestB}`,
+                  `Round ${round} Judge: ${judgeSynthesis}`,
+                ].join("\n\n")
               );
 
               if (converged) break;
@@ -1109,6 +1269,8 @@ export async function POST(request: NextRequest) {
               const executorOutput = await completeOnce({
                 apiKey,
                 model: convergentModel,
+                context,
+                label: "executor",
                 temperature: 0.35,
                 maxTokens: 1100,
                 reasoning: { effort: "none", exclude: true },
@@ -1181,9 +1343,16 @@ export async function POST(request: NextRequest) {
               type: "done",
               reasoning: "",
               content: finalContent,
+              usage: context.meter.total(),
+              model: context.model,
             });
             safeClose();
           } catch (error) {
+            if (isAbortError(error)) {
+              console.log("[convergent] client disconnected, remaining calls aborted");
+              safeClose();
+              return;
+            }
             console.error("Convergent chat error:", error);
             const messageText =
               "Convergent Thinking Mode ran into an error. Please try again.";
@@ -1192,27 +1361,33 @@ export async function POST(request: NextRequest) {
             safeClose();
           }
         },
-      });
-
-      return new Response(stream, {
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache",
-          Connection: "keep-alive",
+        cancel() {
+          upstream.abort();
         },
       });
+
+      return resumableResponse(stream, upstream, { snapshotKey: chatSnapshotKey });
     }
 
     const enableThinking = convergentThinking;
     let nonConvergentTask = rawTask;
+    // Attachment preprocessing runs before the stream opens; its usage is
+    // reported together with the reply's once streaming finishes.
+    const context: CallContext = {
+      meter: createUsageMeter(),
+      signal: upstream.signal,
+      model: resolvedModelId,
+    };
 
     if (hasImage) {
       const imageAnalysis = await analyzeImageWithVision({
         apiKey,
+        model: visionModelId,
         imageDataUrl: imageDataUrlRaw,
         userMessage: rawTask,
+        context,
       });
-      nonConvergentTask = buildImageAugmentedTask(rawTask, imageAnalysis);
+      nonConvergentTask = buildImageAugmentedTask(rawTask, imageAnalysis, budget.attachments);
     }
 
     if (hasPdf) {
@@ -1233,8 +1408,13 @@ export async function POST(request: NextRequest) {
         model: resolvedModelId,
         userMessage: rawTask,
         extractedText: extraction.text,
+        context,
       });
-      nonConvergentTask = buildPdfAugmentedTask(nonConvergentTask, pdfSummary);
+      nonConvergentTask = buildPdfAugmentedTask(
+        nonConvergentTask,
+        pdfSummary,
+        budget.attachments
+      );
     }
 
     // Instant UX for simple social pings in non-convergent chat mode.
@@ -1321,7 +1501,7 @@ export async function POST(request: NextRequest) {
           let searchContext = "";
           if (webSearchEnabled) {
             send({ type: "web-search-start" });
-            const searchResults = await searchWeb(nonConvergentTask);
+            const searchResults = await searchWeb(nonConvergentTask, 6, upstream.signal);
             send({
               type: "web-search-done",
               results: searchResults.map((r) => ({
@@ -1330,7 +1510,7 @@ export async function POST(request: NextRequest) {
               })),
             });
             if (searchResults.length > 0) {
-              searchContext = formatSearchContext(searchResults);
+              searchContext = fitToTokens(formatSearchContext(searchResults), budget.search);
             }
           }
 
@@ -1345,46 +1525,48 @@ export async function POST(request: NextRequest) {
             { role: "user", content: userContent },
           ];
 
-          const requestHeaders = {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-            "HTTP-Referer":
-              process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
-            "X-Title": "DeepConverge AI",
-          };
+          let reasoning = "";
+          let content = "";
 
-          const buildPayload = (includeReasoning: boolean) => {
-            const p: Record<string, unknown> = {
-              model: resolvedModelId,
-              messages,
-              stream: true,
-              temperature: enableThinking ? 0.7 : 0.45,
-              max_tokens: 8192,
-            };
-            if (includeReasoning && enableThinking) {
-              p.reasoning = { effort: "high" };
-            }
-            return p;
-          };
+          try {
+            context.model = resolvedModelId;
+            const chunks = streamWithFallback(
+              {
+                apiKey,
+                model: resolvedModelId,
+                messages,
+                temperature: enableThinking ? 0.7 : 0.45,
+                maxTokens: 8192,
+                reasoning: enableThinking ? { effort: "high" } : undefined,
+                signal: upstream.signal,
+              },
+              fallbacksFor(resolvedModelId),
+              (event) => {
+                context.model = event.to;
+                send({ type: "model-switched", label: "reply", ...event });
+              }
+            );
 
-          let response = await fetch(OPENROUTER_API_URL, {
-            method: "POST",
-            headers: requestHeaders,
-            body: JSON.stringify(buildPayload(true)),
-          });
-
-          if (!response.ok) {
-            const errText = await response.text();
-            console.error("OpenRouter error:", errText);
-            const isUsageLimit =
-              response.status === 429 ||
-              response.status === 402 ||
-              errText.toLowerCase().includes("credits") ||
-              errText.toLowerCase().includes("quota") ||
-              errText.toLowerCase().includes("rate limit");
+            // ── Stream model response ──
+            for await (const chunk of chunks) {
+              if (chunk.type === "reasoning") {
+                if (!enableThinking) continue;
+                reasoning += chunk.text;
+                send({ type: "reasoning", content: reasoning });
+              } else if (chunk.type === "content") {
+                content += chunk.text;
+                send({ type: "content", content });
+              } else {
+                context.meter.record(chunk.usage, "reply");
+                send({ type: "usage", label: "reply", usage: chunk.usage, total: context.meter.total() });
+              }
+            }
+          } catch (error) {
+            if (!(error instanceof ProviderError)) throw error;
+            console.error("OpenRouter error:", error.body);
             send({
               type: "content",
-              content: isUsageLimit
+              content: isUsageLimitError(error)
                 ? "You've hit your usage limit. Extra usage is coming once beta mode is over. Thank you for testing our product!"
                 : "Sorry, there was an error connecting to the AI model. Please try again.",
             });
@@ -1393,72 +1575,19 @@ export async function POST(request: NextRequest) {
             return;
           }
 
-          // ── Stream OpenRouter response ──
-          const reader = response.body?.getReader();
-          if (!reader) {
-            safeClose();
-            return;
-          }
-
-          const decoder = new TextDecoder();
-          let buffer = "";
-          let reasoning = "";
-          let content = "";
-          const processLine = (line: string) => {
-            if (!line.startsWith("data: ")) return;
-            const data = line.slice(6);
-            if (data === "[DONE]") return;
-
-            try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices?.[0]?.delta;
-              const reasoningChunk = delta?.reasoning || "";
-              if (enableThinking && reasoningChunk) {
-                reasoning += reasoningChunk;
-                send({ type: "reasoning", content: reasoning });
-              }
-
-              const contentChunk = delta?.content || "";
-              if (contentChunk) {
-                content += contentChunk;
-                send({ type: "content", content });
-              }
-            } catch {
-              // Skip invalid JSON
-            }
-          };
-
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
-            for (const line of lines) processLine(line);
-          }
-
-          buffer += decoder.decode();
-          if (buffer.trim()) {
-            for (const line of buffer.split("\n"))
-              processLine(line.trimEnd());
-          }
-
-          send({ type: "done", reasoning, content });
+          send({ type: "done", reasoning, content, usage: context.meter.total(), model: context.model });
           safeClose();
         } catch (error) {
-          console.error("Stream error:", error);
+          if (!isAbortError(error)) console.error("Stream error:", error);
           safeClose();
         }
       },
-    });
-
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
+      cancel() {
+        upstream.abort();
       },
     });
+
+    return resumableResponse(stream, upstream, { snapshotKey: chatSnapshotKey });
   } catch (error) {
     console.error("Request error:", error);
     return new Response(JSON.stringify({ error: "Internal server error" }), {
@@ -1,62 +1,73 @@
 import { NextRequest } from "next/server";
+import { complete as completeCompletion, requiresApiKey, webResearchEnabled } from "@/lib/llm/provider";
+import { withFixture } from "@/lib/llm/fixtures";
+import { abortUntilDetached, isAbortError } from "@/lib/llm/abort";
+import { findModel } from "@/lib/llm/catalog";
+import { DEFAULT_DEBATE_MODEL } from "@/lib/models";
+import { ChatMessage, TokenUsage } from "@/lib/llm/types";
+import { addUsage, createUsageMeter, UsageMeter } from "@/lib/llm/usage";
+import { fitToTokens } from "@/lib/llm/context";
+import {
+  completeStructured,
+  JsonSchema,
+  StructuredOutputError,
+  validateJson,
+} from "@/lib/llm/structured";
+import {
+  combineScorecards,
+  MAX_JUDGE_PANEL,
+  SCORECARD_SCHEMA,
+  scorecardTotal,
+  VerdictAggregation,
+  VerdictPanel,
+  VerdictScorecard,
+} from "@/lib/debate-scoring";
+import {
+  DEBATE_MEMORY_MODES,
+  DEFAULT_DEBATE_FORMAT,
+  DEFAULT_DEBATE_MEMORY,
+  DebateFormat,
+  DebateMemory,
+  DebateSide,
+  findDebateFormat,
+  resolveSide,
+  scheduleTurns,
+} from "@/lib/debate-formats";
+import { Citation, searchWikipedia, SearchResult } from "@/lib/wikipedia";
+import { resumableResponse } from "@/lib/sse-replay";
+import { isValidSeed, MAX_SEED, seededCoin } from "@/lib/seed";
+import { CheckedClaim, describeDisputed, factCheckTurn } from "@/lib/fact-check";
+import { signState, verifyState } from "@/lib/signed-state";
 
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
-const MODEL = "nvidia/nemotron-nano-9b-v2:free";
 // API key is provided per-request by the user
 
-interface ChatMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
-
-interface StreamChunk {
-  type: "reasoning" | "content";
-  text: string;
-  sources?: string[];
-}
-
-interface SearchResult {
-  title: string;
-  url: string;
-  snippet: string;
-}
-
 // ── System prompts ──────────────────────────────────────────────────
 
+const SPEECH_FORMAT = `Reply with only a JSON object: {"speech": "..."}, where speech is exactly what you say aloud.
+Put no planning, notes, speaker label or formatting in it.`;
+
 const MODERATOR_SYSTEM = `You are the Moderator in a live debate.
-Output only one line that starts with "Moderator:" followed by what you say.
-Do not include any other text. No planning, no notes, no formatting.
+${SPEECH_FORMAT}
 You MUST pick exactly one winner: Blue or Red. No ties, no draws, no "both sides."
 State who won and give one clear reason. End with a short encouraging remark.`;
 
+const SCORER_SYSTEM = `You are the Moderator scoring a finished debate between Blue (FOR) and Red (AGAINST).
+Score both sides from 1 to 10 on evidence, logic, rebuttal quality and clarity, and score both sides for every round.
+A side that did not speak in a round gets the same score as its previous round.
+You MUST pick exactly one winner: blue or red. No ties.
+Reply with only a JSON object matching the schema.`;
+
 const MODERATOR_INTRO_SYSTEM = `You are the Moderator in a live debate.
-Output only one line that starts with "Moderator:" followed by what you say.
-Do not include any other text. No planning, no notes, no formatting.
+${SPEECH_FORMAT}
 Introduce the topic and assign sides naturally.`;
 
 const DEBATER_SYSTEM = (side: "FOR" | "AGAINST") =>
   `You are ${side === "FOR" ? "Blue" : "Red"} in a live debate arguing ${side} the proposition.
-Output only one line that starts with "${side === "FOR" ? "Blue" : "Red"}:" followed by what you say.
-Do not include any other text. No planning, no notes, no formatting.
+${SPEECH_FORMAT}
 Speak like a real human. Respond directly to your opponent.`;
 
 // ── Utility functions ───────────────────────────────────────────────
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null;
-}
-
-function extractText(value: unknown): string {
-  if (typeof value === "string") return value;
-  if (Array.isArray(value)) return value.map((part) => extractText(part)).join("");
-  if (isRecord(value)) {
-    if (typeof value.text === "string") return value.text;
-    if (typeof value.content === "string") return value.content;
-    if (Array.isArray(value.parts)) return value.parts.map((part) => extractText(part)).join("");
-  }
-  return "";
-}
-
 function stripUrls(text: string): string {
   return text
     .replace(/\[([^\]]*)\]\(https?:\/\/[^)]+\)/g, "")
@@ -67,6 +78,7 @@ function stripUrls(text: string): string {
 }
 
 // ── Smart extraction ────────────────────────────────────────────────
+// Fallback only: used when a speaker's reply doesn't match SPEECH_SCHEMA.
 // Instead of pattern-matching CoT (whack-a-mole), we extract the
 // model's actual spoken answer from its reasoning output.
 //
@@ -107,6 +119,12 @@ const META_SIGNALS = [
   "total char", "how many char", "how many word", "now deliver",
   "but they want", "that domain", "that is okay", "that likely",
   "that suggests", "can also", "we can", "we should",
+  "no sources", "without sources", "missing sources",
+  "i don't have", "i cannot verify", "i can't verify",
+];
+
+/** Appeals to outside research; kept only when the debate cites its dossiers */
+const EVIDENCE_SIGNALS = [
   "documented in", "according to", "studies show", "research shows",
   "the article", "the study", "published in", "as reported",
   "check out", "refer to", "as noted in", "evidence from",
@@ -115,18 +133,19 @@ const META_SIGNALS = [
   "the evidence", "the data", "peer-reviewed", "meta-analysis",
   "clinical trial", "randomized control", "literature review",
   "journal of", "university of", "institute of",
-  "no sources", "without sources", "missing sources",
-  "i don't have", "i cannot verify", "i can't verify",
 ];
 
-function isMetaSentence(s: string): boolean {
+function isMetaSentence(s: string, allowEvidence = false): boolean {
   const lower = s.toLowerCase();
   if (lower.length < 15) return true; // too short to be real speech
-  return META_SIGNALS.some((kw) => lower.includes(kw));
+  return (
+    META_SIGNALS.some((kw) => lower.includes(kw)) ||
+    (!allowEvidence && EVIDENCE_SIGNALS.some((kw) => lower.includes(kw)))
+  );
 }
 
 /** Try to extract a quoted final answer from the model output */
-function tryExtractQuoted(text: string): string | null {
+function tryExtractQuoted(text: string, allowEvidence: boolean): string | null {
   // Look for text after "Let's craft:" or "Thus final answer:" in quotes
   const markerQuoteRe =
     /(?:let's craft|thus final answer|final answer|final version)[:\s]*"([^"]{20,})"/gi;
@@ -144,7 +163,7 @@ function tryExtractQuoted(text: string): string | null {
     const afterMarker = markerMatch[1].trim();
     // Split into sentences and take clean ones
     const sentences = afterMarker.match(/[^.!?]+[.!?]+/g) || [];
-    const clean = sentences.filter((s) => !isMetaSentence(s.trim()));
+    const clean = sentences.filter((s) => !isMetaSentence(s.trim(), allowEvidence));
     if (clean.length > 0) return clean.join(" ").trim();
   }
 
@@ -171,7 +190,7 @@ function extractPrefixedLine(rawText: string, prefix: string): string | null {
 }
 
 /** Extract actual debate speech from raw model output */
-function extractSpeech(rawText: string, maxLen: number, speaker: string): string {
+function extractSpeech(rawText: string, maxLen: number, speaker: string, allowEvidence = false): string {
   const noUrls = stripUrls(rawText);
 
   // Strategy 0: prefix extraction (strongest — model told to use "Speaker: ...")
@@ -182,7 +201,7 @@ function extractSpeech(rawText: string, maxLen: number, speaker: string): string
   }
 
   // Strategy 1: quoted/marked final answer
-  const quoted = tryExtractQuoted(noUrls);
+  const quoted = tryExtractQuoted(noUrls, allowEvidence);
   if (quoted) {
     const cleaned = stripFormatting(quoted);
     return cleaned.length > maxLen ? cleaned.slice(0, maxLen) : cleaned;
@@ -194,7 +213,7 @@ function extractSpeech(rawText: string, maxLen: number, speaker: string): string
   const cleanSentences = sentences
     .map((s) => s.trim())
     .filter((s) => s.length > 15)
-    .filter((s) => !isMetaSentence(s));
+    .filter((s) => !isMetaSentence(s, allowEvidence));
 
   if (cleanSentences.length > 0) {
     let result = "";
@@ -259,19 +278,33 @@ function finalize(text: string): string {
   return result.trim();
 }
 
-/** Clean debate content: extract speech, enforce length, finalize */
-function cleanDebateContent(text: string, speaker: "blue" | "red"): string {
-  const prefix = speaker === "blue" ? "Blue" : "Red";
-  return finalize(extractSpeech(text, 400, prefix));
+/** A structured speech needs no extraction: drop a stray speaker label, flatten, enforce length */
+function tidySpeech(text: string, maxLen: number, speaker: string): string {
+  const unlabelled = text.trim().replace(new RegExp(`^${speaker}:\\s*`, "i"), "");
+  const flat = stripFormatting(stripUrls(unlabelled));
+  return flat.length > maxLen ? flat.slice(0, maxLen) : flat;
 }
 
-/** Clean moderator content: extract speech, enforce length, finalize */
-function cleanModeratorContent(text: string): string {
-  return finalize(extractSpeech(text, 500, "Moderator"));
+/** Clean debate content: tidy the speech (or extract it from a raw reply), enforce length, finalize */
+function cleanDebateContent(
+  reply: SpokenReply,
+  speaker: "blue" | "red",
+  maxLen: number,
+  evidence = false
+): string {
+  const prefix = speaker === "blue" ? "Blue" : "Red";
+  // A marker after the full stop would be cut off with the trailing fragment
+  const source = evidence ? reply.text.replace(/([.!?])((?:\s*\[\d+\])+)/g, "$2$1") : reply.text;
+  return finalize(
+    reply.fallback ? extractSpeech(source, maxLen, prefix, evidence) : tidySpeech(source, maxLen, prefix)
+  );
 }
 
-function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/** Clean moderator content: tidy the speech (or extract it from a raw reply), enforce length, finalize */
+function cleanModeratorContent(reply: SpokenReply): string {
+  return finalize(
+    reply.fallback ? extractSpeech(reply.text, 500, "Moderator") : tidySpeech(reply.text, 500, "Moderator")
+  );
 }
 
 const BLOCKED_DEBATE_TOPIC_PATTERNS: RegExp[] = [
@@ -306,164 +339,558 @@ function validateDebateQuestion(question: string): {
   return { allowed: true };
 }
 
-// ── Wikipedia Search ────────────────────────────────────────────────
+/** One-line outline of a format's phases for the moderator's intro */
+function describePhases(format: DebateFormat, blueFirst: boolean): string {
+  return format.phases
+    .map((phase) => {
+      const speakers = phase.speakers
+        .map((slot) => (resolveSide(slot, blueFirst) === "blue" ? "Blue" : "Red"))
+        .join(" then ");
+      return `${phase.label}${phase.repeat ? " (repeated)" : ""}: ${speakers}`;
+    })
+    .join("; ");
+}
+
+// ── Evidence dossiers ───────────────────────────────────────────────
+// With `evidence` on, each side gets its Wikipedia results as a numbered
+// dossier and may cite entries as [n]. Markers that match no entry are
+// removed, so a side can't invent a source.
+
+function formatDossier(results: SearchResult[]): string {
+  return results.map((result, i) => `[${i + 1}] ${result.title}: ${result.snippet}`).join("\n");
+}
+
+/** Drops markers outside the dossier and lists the cited entries in marker order */
+function resolveCitations(
+  text: string,
+  dossier: SearchResult[]
+): { text: string; citations: Citation[] } {
+  const cited = new Set<number>();
+  const kept = text
+    .replace(/\s*\[(\d+)\]/g, (match, digits: string) => {
+      const marker = Number(digits);
+      if (marker < 1 || marker > dossier.length) return "";
+      cited.add(marker);
+      return match;
+    })
+    .trim();
+  const citations = [...cited]
+    .sort((a, b) => a - b)
+    .map((marker) => ({ marker, title: dossier[marker - 1].title, url: dossier[marker - 1].url }));
+  return { text: kept, citations };
+}
+
+// ── Structured speech ───────────────────────────────────────────────
+// Debaters and the moderator reply as {"speech": "..."}, which is used as
+// is. Only when no valid reply comes back, even after a repair, does the
+// raw text go through the extraction heuristics above; the `done` event
+// then carries `fallback: true`.
+
+interface SpeechReply {
+  speech: string;
+}
+
+const SPEECH_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["speech"],
+  properties: { speech: { type: "string" } },
+};
 
-async function searchWikipedia(query: string, limit = 3): Promise<SearchResult[]> {
+interface SpokenReply {
+  /** The validated speech, or the model's raw reply when `fallback` is set */
+  text: string;
+  fallback: boolean;
+  usage?: TokenUsage;
+}
+
+async function speak(params: {
+  messages: ChatMessage[];
+  label: string;
+  /** Who the usage is recorded under */
+  speaker: string;
+  model: string;
+  apiKey: string;
+  signal: AbortSignal;
+  meter: UsageMeter;
+  seed?: number;
+}): Promise<SpokenReply> {
+  console.log(`[debate-mode] ${params.label}: model request`);
+  let usage: TokenUsage | undefined;
   try {
-    const url = `https://en.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(query)}&format=json&srlimit=${limit}&origin=*`;
-    const response = await fetch(url);
-    if (!response.ok) return [];
-
-    const data = await response.json();
-    const results: SearchResult[] = [];
-
-    if (data?.query?.search) {
-      for (const item of data.query.search) {
-        results.push({
-          title: item.title,
-          url: `https://en.wikipedia.org/wiki/${encodeURIComponent(item.title.replace(/ /g, "_"))}`,
-          snippet: (item.snippet || "").replace(/<[^>]+>/g, "").slice(0, 200),
+    const { value, repairs } = await completeStructured<SpeechReply>({
+      name: "speech",
+      schema: SPEECH_SCHEMA,
+      messages: params.messages,
+      ask: async (messages, responseFormat) => {
+        const result = await completeCompletion({
+          model: params.model,
+          messages,
+          apiKey: params.apiKey,
+          temperature: 0.7,
+          maxTokens: 600,
+          responseFormat,
+          title: `DeepConverge Debate - ${params.label}`,
+          maxRetries: 5,
+          signal: params.signal,
+          seed: params.seed,
         });
-      }
+        params.meter.record(result.usage, params.speaker);
+        if (result.usage) usage = usage ? addUsage(usage, result.usage) : result.usage;
+        // Nemotron often puts its whole reply in reasoning tokens
+        return result.content || result.reasoning;
+      },
+      maxRepairs: 1,
+    });
+    if (repairs > 0) {
+      console.warn(`[debate-mode] ${params.label}: speech repaired after ${repairs} re-ask(s)`);
     }
-
-    return results;
+    return { text: value.speech, fallback: false, usage };
   } catch (error) {
-    console.error("Wikipedia search error:", error);
-    return [];
+    if (!(error instanceof StructuredOutputError)) throw error;
+    console.warn(`[debate-mode] ${params.label}: falling back to speech extraction:`, error.message);
+    // The first reply answers the original prompt; the repairs only argue about JSON
+    return { text: error.attempts[0]?.raw ?? "", fallback: true, usage };
   }
 }
 
-// ── OpenRouter streaming ────────────────────────────────────────────
+// ── Adaptive stopping ───────────────────────────────────────────────
+// After each round (except the last) the moderator checks whether the
+// debate is still going anywhere, as in the MAD paper's adaptive break:
+// it can let it continue, end it early, or once per debate put a new
+// sub-question to both sides.
+
+/** Share of a side's words reused from its previous turn that counts as repeating */
+const REPETITION_THRESHOLD = 0.6;
 
-async function fetchWithRetry(
-  messages: ChatMessage[],
-  label: string,
-  apiKey: string,
-  maxRetries = 5
-): Promise<Response> {
+type StallSignal = "repetition" | "concession" | "agreement";
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    const requestId = `${label}-${Date.now()}-${attempt}`;
-    console.log(
-      `[debate-mode] ${label}: OpenRouter request attempt ${attempt + 1}/${maxRetries + 1}`
+interface RoundCheck {
+  decision: "continue" | "stop" | "redirect";
+  signal: StallSignal | "none";
+  reason: string;
+  sub_question: string;
+}
+
+const ROUND_CHECK_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["decision", "signal", "reason", "sub_question"],
+  properties: {
+    decision: { type: "string", enum: ["continue", "stop", "redirect"] },
+    signal: { type: "string", enum: ["none", "repetition", "concession", "agreement"] },
+    reason: { type: "string" },
+    sub_question: { type: "string" },
+  },
+};
+
+const ROUND_CHECK_SYSTEM = `You are the Moderator of a live debate between Blue (FOR) and Red (AGAINST), checking the round that just ended.
+Decide whether the debate is still productive:
+- "continue" if the sides still genuinely disagree and bring new points.
+- "stop" if a side has conceded, the sides now agree, or they are repeating themselves.
+- "redirect" if they are stuck but a sharper sub-question of the topic would restart real disagreement. Put that question in sub_question.
+Set signal to what you saw (none, repetition, concession or agreement) and give a one-sentence reason.
+Reply with only a JSON object matching the schema.`;
+
+/** Share of `latest`'s distinct words that already appeared in `previous` */
+function wordOverlap(latest: string, previous: string): number {
+  const words = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9']{4,}/g) || []);
+  const now = words(latest);
+  const before = words(previous);
+  if (now.size === 0 || before.size === 0) return 0;
+  let reused = 0;
+  for (const word of now) if (before.has(word)) reused++;
+  return reused / now.size;
+}
+
+async function checkRound(params: {
+  question: string;
+  said: Record<"blue" | "red", string[]>;
+  canRedirect: boolean;
+  model: string;
+  apiKey: string;
+  signal: AbortSignal;
+  meter: UsageMeter;
+  seed?: number;
+}): Promise<RoundCheck> {
+  const repeating = (["blue", "red"] as const).every((side) => {
+    const turns = params.said[side];
+    return (
+      turns.length >= 2 &&
+      wordOverlap(turns[turns.length - 1], turns[turns.length - 2]) >= REPETITION_THRESHOLD
     );
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: "POST",
-      cache: "no-store",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "HTTP-Referer":
-          process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
-        "X-Title": `DeepConverge Debate - ${label}`,
-        "X-Request-Id": requestId,
+  });
+  const latest = (side: "blue" | "red") => params.said[side][params.said[side].length - 1] || "(nothing yet)";
+
+  let check: RoundCheck;
+  try {
+    ({ value: check } = await completeStructured<RoundCheck>({
+      name: "round_check",
+      schema: ROUND_CHECK_SCHEMA,
+      messages: [
+        { role: "system", content: ROUND_CHECK_SYSTEM },
+        {
+          role: "user",
+          content: [
+            `Topic: "${params.question}"`,
+            `Blue just said: ${latest("blue")}`,
+            `Red just said: ${latest("red")}`,
+            repeating ? "Note: both sides reused most of the wording of their previous turn." : "",
+            params.canRedirect ? "" : "A sub-question was already asked; choose continue or stop.",
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+        },
+      ],
+      ask: async (messages, responseFormat) => {
+        const result = await completeCompletion({
+          model: params.model,
+          messages,
+          apiKey: params.apiKey,
+          temperature: 0.2,
+          maxTokens: 300,
+          reasoning: { effort: "none", exclude: true },
+          responseFormat,
+          title: "DeepConverge Debate - round check",
+          maxRetries: 5,
+          signal: params.signal,
+          seed: params.seed,
+        });
+        params.meter.record(result.usage, "moderator");
+        return result.content || result.reasoning;
       },
-      body: JSON.stringify({
-        model: MODEL,
-        messages,
-        stream: true,
-        temperature: 0.7,
-        max_tokens: 600,
-      }),
-    });
+      maxRepairs: 1,
+    }));
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) throw error;
+    console.warn("[debate-mode] round check invalid:", error.message);
+    check = { decision: "continue", signal: "none", reason: "", sub_question: "" };
+  }
 
-    if (response.status === 429 && attempt < maxRetries) {
-      let waitMs = (attempt + 1) * 5000;
-      try {
-        const errorBody = await response.json();
-        const resetTimestamp =
-          errorBody?.error?.metadata?.headers?.["X-RateLimit-Reset"];
-        if (resetTimestamp) {
-          const resetMs = Number(resetTimestamp) - Date.now();
-          if (resetMs > 0 && resetMs < 120000) {
-            waitMs = resetMs + 1000;
-          }
-        }
-      } catch {
-        // Use default backoff
-      }
-      console.log(
-        `Rate limited (attempt ${attempt + 1}/${maxRetries}), waiting ${Math.round(waitMs / 1000)}s...`
-      );
-      await sleep(waitMs);
-      continue;
-    }
+  // The wording check stands even when the model misses or can't be parsed
+  if (repeating && check.decision === "continue") {
+    check = {
+      decision: "stop",
+      signal: "repetition",
+      reason: "Both sides are repeating their previous arguments.",
+      sub_question: "",
+    };
+  }
+  if (check.decision === "redirect" && (!params.canRedirect || !check.sub_question.trim())) {
+    check = { ...check, decision: check.signal === "none" ? "continue" : "stop" };
+  }
+  return check;
+}
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} - ${error}`);
-    }
+// ── Debater memory ─────────────────────────────────────────────────
+// What each side is shown of the debate so far. "summary" memory keeps a
+// short recap, rewritten by a cheap call after every round.
+
+/** Rough cap on the rolling summary, in tokens */
+const SUMMARY_TOKENS = 250;
+
+const SUMMARY_SYSTEM = `You keep the running notes of a live debate between Blue (FOR) and Red (AGAINST).
+Update the summary with the new turns. Keep each side's main claims, the evidence they used and anything they conceded.
+Write at most 120 words of plain prose. No preamble, no headings.`;
+
+interface DebateEntry {
+  speaker: string;
+  content: string;
+  round?: number;
+  phase?: string;
+}
+
+function formatTranscript(history: DebateEntry[]): string {
+  return history
+    .map((h) =>
+      h.round
+        ? `[${h.speaker.toUpperCase()} · R${h.round} ${h.phase}]: ${h.content}`
+        : `[${h.speaker.toUpperCase()}]: ${h.content}`
+    )
+    .join("\n\n");
+}
 
-    console.log(`[debate-mode] ${label}: OpenRouter response ${response.status}`);
-    return response;
+/** Folds `turns` into the summary; keeps the old one if the call fails */
+async function summarizeDebate(params: {
+  question: string;
+  previousSummary: string;
+  turns: DebateEntry[];
+  model: string;
+  apiKey: string;
+  signal: AbortSignal;
+  meter: UsageMeter;
+  seed?: number;
+}): Promise<string> {
+  try {
+    const result = await completeCompletion({
+      model: params.model,
+      messages: [
+        { role: "system", content: SUMMARY_SYSTEM },
+        {
+          role: "user",
+          content: [
+            `Topic: "${params.question}"`,
+            `Summary so far: ${params.previousSummary || "(none yet)"}`,
+            `New turns:\n${formatTranscript(params.turns)}`,
+          ].join("\n\n"),
+        },
+      ],
+      apiKey: params.apiKey,
+      temperature: 0.2,
+      maxTokens: 300,
+      reasoning: { effort: "none", exclude: true },
+      title: "DeepConverge Debate - summary",
+      maxRetries: 5,
+      signal: params.signal,
+      seed: params.seed,
+    });
+    params.meter.record(result.usage, "moderator");
+    const summary = result.content.trim() || result.reasoning.trim();
+    return summary ? fitToTokens(summary, SUMMARY_TOKENS) : params.previousSummary;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn("[debate-mode] summary failed:", error instanceof Error ? error.message : error);
+    return params.previousSummary;
   }
+}
+
+// ── Fact check ──────────────────────────────────────────────────────
+// With `factCheck` on, every Blue/Red turn is checked against both sides'
+// research (or a fresh search when there is none) and the claims go out as
+// a `factcheck` event. Disputed ones are put to the scorer and the verdict.
 
-  throw new Error("Max retries exceeded for rate limit");
+/** Claims from one turn; empty when the check fails, since it only annotates */
+async function checkTurnFacts(params: {
+  question: string;
+  speaker: DebateSide;
+  text: string;
+  sources: SearchResult[];
+  model: string;
+  apiKey: string;
+  signal: AbortSignal;
+  meter: UsageMeter;
+  seed?: number;
+}): Promise<CheckedClaim[]> {
+  try {
+    return await factCheckTurn({
+      question: params.question,
+      speaker: params.speaker === "blue" ? "Blue (FOR)" : "Red (AGAINST)",
+      text: params.text,
+      sources: params.sources,
+      ask: async (messages, responseFormat) => {
+        const result = await completeCompletion({
+          model: params.model,
+          messages,
+          apiKey: params.apiKey,
+          temperature: 0.2,
+          maxTokens: 600,
+          reasoning: { effort: "none", exclude: true },
+          responseFormat,
+          title: "DeepConverge Debate - fact check",
+          maxRetries: 5,
+          signal: params.signal,
+          seed: params.seed,
+        });
+        params.meter.record(result.usage, "fact-check", params.speaker);
+        return result.content || result.reasoning;
+      },
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn("[debate-mode] fact check failed:", error instanceof Error ? error.message : error);
+    return [];
+  }
 }
 
-async function* streamFromOpenRouter(
-  messages: ChatMessage[],
-  label: string,
-  apiKey: string
-): AsyncGenerator<StreamChunk> {
-  const response = await fetchWithRetry(messages, label, apiKey);
-
-  const reader = response.body?.getReader();
-  if (!reader) throw new Error("No response body");
-
-  const decoder = new TextDecoder();
-  let buffer = "";
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() || "";
-
-    for (const line of lines) {
-      const trimmedLine = line.trimEnd();
-      if (!trimmedLine.startsWith("data:")) continue;
-
-      const data = trimmedLine.slice(5).trimStart();
-      if (!data) continue;
-      if (data === "[DONE]") return;
-
-      try {
-        const rawParsed = JSON.parse(data);
-        if (!isRecord(rawParsed)) continue;
-
-        const choices = Array.isArray(rawParsed.choices) ? rawParsed.choices : [];
-        const choice = choices.length > 0 && isRecord(choices[0]) ? choices[0] : undefined;
-        const delta = choice && isRecord(choice.delta) ? choice.delta : undefined;
-        const message = choice && isRecord(choice.message) ? choice.message : undefined;
-
-        const reasoningText = extractText(delta?.reasoning);
-        const deltaContent = extractText(delta?.content) || extractText(delta?.text);
-        const messageContent = extractText(message?.content) || extractText(choice?.text);
-        const contentText = deltaContent || messageContent;
-
-        // Yield whatever text the model returns (it puts everything in reasoning tokens)
-        const allText = contentText || reasoningText;
-        if (allText) {
-          yield { type: "content", text: allText };
-        }
-      } catch {
-        // Skip invalid JSON
-      }
+// ── Scorecard ───────────────────────────────────────────────────────
+
+/**
+ * Scores the transcript against the rubric in lib/debate-scoring. Null when
+ * the model can't produce a valid scorecard or the call fails; the spoken
+ * verdict still runs, and a panel carries on with the remaining ballots.
+ */
+async function scoreDebate(params: {
+  question: string;
+  transcript: string;
+  rounds: number[];
+  model: string;
+  apiKey: string;
+  signal: AbortSignal;
+  meter: UsageMeter;
+  seed?: number;
+}): Promise<VerdictScorecard | null> {
+  try {
+    const { value, repairs } = await completeStructured<VerdictScorecard>({
+      name: "debate_scorecard",
+      schema: SCORECARD_SCHEMA,
+      messages: [
+        { role: "system", content: SCORER_SYSTEM },
+        {
+          role: "user",
+          content: `Topic: "${params.question}"\n\nRounds to score: ${params.rounds.join(", ")}\n\nThe debate:\n${params.transcript}`,
+        },
+      ],
+      ask: async (messages, responseFormat) => {
+        const result = await completeCompletion({
+          model: params.model,
+          messages,
+          apiKey: params.apiKey,
+          temperature: 0.2,
+          maxTokens: 800,
+          reasoning: { effort: "none", exclude: true },
+          responseFormat,
+          title: "DeepConverge Debate - scorecard",
+          maxRetries: 5,
+          signal: params.signal,
+          seed: params.seed,
+        });
+        params.meter.record(result.usage, "moderator");
+        return result.content || result.reasoning;
+      },
+    });
+    if (repairs > 0) {
+      console.warn(`[debate-mode] scorecard repaired after ${repairs} re-ask(s)`);
+    }
+    // Drop rounds the debate never had and keep one entry per round
+    const rounds = params.rounds.flatMap((round) => {
+      const scored = value.rounds.find((entry) => entry.round === round);
+      return scored ? [scored] : [];
+    });
+    return { ...value, rounds, reason: value.reason.trim() };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // One judge failing (rate limit, provider error) only costs its ballot
+    if (error instanceof StructuredOutputError) {
+      console.warn("[debate-mode] scorecard invalid:", error.message);
+    } else {
+      console.warn(`[debate-mode] scorecard failed (${params.model}):`, error instanceof Error ? error.message : error);
     }
+    return null;
   }
 }
 
+// ── Human side ──────────────────────────────────────────────────────
+// With `human` set, the route stops at that side's turn and sends an
+// `await-human` event carrying the debate state, signed by lib/signed-state
+// for this question and setup. The client posts it back as `resume.state`
+// along with the user's argument, and the debate picks up from that turn.
+// Nothing is kept on the server in between, and a state that was altered or
+// issued for another debate is rejected. Usage is not carried over: the
+// `complete` total covers the resumed request only.
+
+/** Recorded when the user submits nothing or runs out of time */
+const HUMAN_PASS = "(No argument given.)";
+
+interface DebateState {
+  /** Index into the scheduled turns of the turn waiting for the user */
+  turn: number;
+  blueFirst: boolean;
+  modIntro: string;
+  research: Record<DebateSide, SearchResult[]>;
+  lastBlueMsg: string;
+  lastRedMsg: string;
+  said: Record<DebateSide, string[]>;
+  followUp?: { question: string; round: number };
+  memorySummary: string;
+  summarizedThrough: number;
+  /** One line per disputed claim so far, for the scorer and the verdict */
+  disputed: string[];
+  history: DebateEntry[];
+}
+
+const STRING_LIST: JsonSchema = { type: "array", items: { type: "string" } };
+
+const SEARCH_RESULTS: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["title", "url", "snippet"],
+    properties: { title: { type: "string" }, url: { type: "string" }, snippet: { type: "string" } },
+  },
+};
+
+const DEBATE_STATE_SCHEMA: JsonSchema = {
+  type: "object",
+  required: [
+    "turn",
+    "blueFirst",
+    "modIntro",
+    "research",
+    "lastBlueMsg",
+    "lastRedMsg",
+    "said",
+    "memorySummary",
+    "summarizedThrough",
+    "disputed",
+    "history",
+  ],
+  properties: {
+    turn: { type: "integer", minimum: 0 },
+    blueFirst: { type: "boolean" },
+    modIntro: { type: "string" },
+    research: {
+      type: "object",
+      required: ["blue", "red"],
+      properties: { blue: SEARCH_RESULTS, red: SEARCH_RESULTS },
+    },
+    lastBlueMsg: { type: "string" },
+    lastRedMsg: { type: "string" },
+    said: {
+      type: "object",
+      required: ["blue", "red"],
+      properties: { blue: STRING_LIST, red: STRING_LIST },
+    },
+    followUp: {
+      type: "object",
+      required: ["question", "round"],
+      properties: { question: { type: "string" }, round: { type: "integer", minimum: 1 } },
+    },
+    memorySummary: { type: "string" },
+    summarizedThrough: { type: "integer", minimum: 0 },
+    disputed: STRING_LIST,
+    history: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["speaker", "content"],
+        properties: {
+          speaker: { type: "string" },
+          content: { type: "string" },
+          round: { type: "integer", minimum: 1 },
+          phase: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+/** What a signed state is bound to; a resume must repeat the same setup */
+function stateContext(question: string, format: DebateFormat, rounds: number, human: DebateSide): string {
+  return JSON.stringify([question, format.id, rounds, human]);
+}
+
 // ── POST handler ────────────────────────────────────────────────────
 
 export async function POST(request: NextRequest) {
   try {
-    const { question, rounds = 2, apiKey } = await request.json();
-
-    if (!apiKey || typeof apiKey !== "string") {
+    const {
+      question,
+      rounds = 2,
+      apiKey,
+      model,
+      format: formatId,
+      judges,
+      aggregation = "majority",
+      adaptive = true,
+      memory = DEFAULT_DEBATE_MEMORY,
+      human,
+      resume,
+      evidence = false,
+      factCheck = false,
+      seed,
+    } = await request.json();
+
+    if (requiresApiKey() && (!apiKey || typeof apiKey !== "string")) {
       return new Response(
         JSON.stringify({ error: "API key is required. Please add your OpenRouter API key in Settings." }),
         { status: 401, headers: { "Content-Type": "application/json" } }
@@ -491,9 +918,115 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const debateModel = await findModel(
+      typeof model === "string" && model.trim() ? model.trim() : DEFAULT_DEBATE_MODEL
+    );
+    if (!debateModel) {
+      return new Response(JSON.stringify({ error: `Unknown model: ${model}` }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const format = findDebateFormat(
+      typeof formatId === "string" && formatId ? formatId : DEFAULT_DEBATE_FORMAT
+    );
+    if (!format) {
+      return new Response(JSON.stringify({ error: `Unknown debate format: ${formatId}` }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (!DEBATE_MEMORY_MODES.some((mode) => mode.id === memory)) {
+      return new Response(JSON.stringify({ error: "memory must be last, transcript or summary" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const debaterMemory: DebateMemory = memory;
+
+    // Judge panel: one scorer per listed model, the debate model by default
+    if (
+      judges !== undefined &&
+      (!Array.isArray(judges) ||
+        judges.length === 0 ||
+        judges.length > MAX_JUDGE_PANEL ||
+        judges.some((judge) => typeof judge !== "string" || !judge.trim()))
+    ) {
+      return new Response(
+        JSON.stringify({ error: `judges must list 1 to ${MAX_JUDGE_PANEL} model ids` }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    if (aggregation !== "majority" && aggregation !== "average") {
+      return new Response(JSON.stringify({ error: "aggregation must be majority or average" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const judgeModels: string[] = [];
+    for (const judge of (judges as string[] | undefined) ?? [debateModel.id]) {
+      const judgeModel = await findModel(judge.trim());
+      if (!judgeModel) {
+        return new Response(JSON.stringify({ error: `Unknown model: ${judge}` }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      judgeModels.push(judgeModel.id);
+    }
+    const verdictAggregation: VerdictAggregation = aggregation;
+
     const clampedRounds = Math.min(Math.max(1, rounds), 5);
+
+    // Fixes the coin toss and is sent as every model call's seed
+    if (seed !== undefined && !isValidSeed(seed)) {
+      return new Response(JSON.stringify({ error: `seed must be an integer from 0 to ${MAX_SEED}` }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (human !== undefined && human !== "blue" && human !== "red") {
+      return new Response(JSON.stringify({ error: "human must be blue or red" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const humanSide: DebateSide | null = human ?? null;
+
+    // Resuming a debate that paused for the user's turn
+    let resumed: DebateState | null = null;
+    let resumeArgument = "";
+    if (resume !== undefined) {
+      const state = humanSide
+        ? (verifyState(resume?.state, stateContext(question, format, clampedRounds, humanSide)) as DebateState | null)
+        : null;
+      const turn =
+        state && validateJson(state, DEBATE_STATE_SCHEMA).length === 0
+          ? scheduleTurns(format, clampedRounds)[state.turn]
+          : undefined;
+      // The paused turn must be the human's, or the state belongs to another debate
+      if (
+        !humanSide ||
+        typeof resume?.argument !== "string" ||
+        !state ||
+        !turn ||
+        resolveSide(turn.speaker, state.blueFirst) !== humanSide
+      ) {
+        return new Response(JSON.stringify({ error: "Invalid resume state" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      resumed = state;
+      resumeArgument = resume.argument;
+    }
     const encoder = new TextEncoder();
-    const debateHistory: { speaker: string; content: string }[] = [];
+    // Outlives a dropped connection so the client can resume; see lib/sse-replay
+    const upstream = abortUntilDetached(request);
+    const debateHistory: DebateEntry[] = resumed?.history ?? [];
 
     let isClosed = false;
 
@@ -516,124 +1049,315 @@ export async function POST(request: NextRequest) {
           }
         };
 
-        try {
-          // ── RESEARCH PHASE ──────────────────────────────────
-          send({ type: "research-start" });
-
-          // Search Wikipedia for both sides in parallel
-          const [blueResearch, redResearch] = await Promise.all([
-            searchWikipedia(`${question} arguments for benefits evidence`),
-            searchWikipedia(`${question} arguments against problems criticism`),
-          ]);
-
-          // Send research results to frontend (sources appear as icons)
-          send({
-            type: "research-done",
-            speaker: "blue",
-            sources: blueResearch.map((r) => r.url),
-          });
-
-          send({
-            type: "research-done",
-            speaker: "red",
-            sources: redResearch.map((r) => r.url),
-          });
-
-          // ── COIN TOSS (speaking order) ─────────────────────
-          const blueFirst = Math.random() < 0.5;
-          const coinResult = blueFirst ? "Heads" : "Tails";
-          const firstSpeaker = blueFirst ? "Blue" : "Red";
-          console.log(`[debate-mode] coin toss: ${coinResult} → ${firstSpeaker} speaks first`);
-
-          // ── MODERATOR INTRO ─────────────────────────────────
-          console.log("[debate-mode] moderator-intro: start");
-          send({ speaker: "moderator", type: "start" });
-
-          const modIntroMessages: ChatMessage[] = [
-            { role: "system", content: MODERATOR_INTRO_SYSTEM },
-            {
-              role: "user",
-              content: `The debate topic is: "${question}"\n\nBlue argues FOR. Red argues AGAINST.\n\nCoin toss result: ${coinResult}. ${firstSpeaker} speaks first.`,
-            },
-          ];
-
-          let modIntroContent = "";
+        const meter = createUsageMeter((usage, total, label, speaker) => {
+          send({ speaker, label, type: "usage", usage, total });
+        });
 
-          for await (const chunk of streamFromOpenRouter(modIntroMessages, "moderator-intro", apiKey)) {
-            if (isClosed) break;
-            if (chunk.type === "content" && chunk.text) {
-              modIntroContent += chunk.text;
+        try {
+          // A resumed debate already has its research, speaking order and intro
+          let blueFirst = resumed?.blueFirst ?? true;
+          let cleanedModIntro = resumed?.modIntro ?? "";
+          let research: Record<DebateSide, SearchResult[]> = resumed?.research ?? { blue: [], red: [] };
+          if (!resumed) {
+            // ── RESEARCH PHASE ──────────────────────────────────
+            // Skipped for offline backends; both sides then argue from what they know
+            if (webResearchEnabled()) {
+              send({ type: "research-start" });
+
+              // Search Wikipedia for both sides in parallel
+              const [blueResearch, redResearch] = await Promise.all([
+                searchWikipedia(`${question} arguments for benefits evidence`, 3, upstream.signal),
+                searchWikipedia(`${question} arguments against problems criticism`, 3, upstream.signal),
+              ]);
+              research = { blue: blueResearch, red: redResearch };
+
+              // Send research results to frontend (sources appear as icons)
+              send({
+                type: "research-done",
+                speaker: "blue",
+                sources: blueResearch.map((r) => r.url),
+              });
+
+              send({
+                type: "research-done",
+                speaker: "red",
+                sources: redResearch.map((r) => r.url),
+              });
             }
-          }
 
-          const cleanedModIntro = cleanModeratorContent(modIntroContent);
-          console.log(
-            `[debate-mode] moderator-intro: done (${cleanedModIntro.length} chars)`
-          );
-          send({ speaker: "moderator", type: "done", content: cleanedModIntro });
-          debateHistory.push({ speaker: "moderator", content: cleanedModIntro });
-
-          // ── DEBATE ROUNDS ───────────────────────────────────
-          // Flat alternating loop: speaker A → speaker B → A → B ...
-          // Each speaker ONLY sees opponent's last message, never own prior output.
-          const order: ("blue" | "red")[] = blueFirst
-            ? ["blue", "red"]
-            : ["red", "blue"];
-
-          // Build flat turn sequence
-          const turns: ("blue" | "red")[] = [];
-          for (let r = 0; r < clampedRounds; r++) {
-            for (const s of order) turns.push(s);
-          }
+            // ── COIN TOSS (speaking order) ─────────────────────
+            // Decided by the seed when there is one; otherwise recorded alongside
+            // the model calls so replays keep the same order.
+            // Formats with fixed sides (e.g. Lincoln–Douglas) skip it.
+            blueFirst = !format.coinToss
+              ? true
+              : seed !== undefined
+              ? seededCoin(seed)
+              : await withFixture("coin-toss", { question }, async () => Math.random() < 0.5);
+            const firstSpeaker = blueFirst ? "Blue" : "Red";
+            const orderNote = format.coinToss
+              ? `Coin toss result: ${blueFirst ? "Heads" : "Tails"}. ${firstSpeaker} speaks first.`
+              : `${firstSpeaker} speaks first.`;
+            console.log(`[debate-mode] ${format.id}: ${firstSpeaker} speaks first`);
+
+            // ── MODERATOR INTRO ─────────────────────────────────
+            console.log("[debate-mode] moderator-intro: start");
+            send({ speaker: "moderator", type: "start" });
+
+            const humanNote = humanSide
+              ? `\n\n${humanSide === "blue" ? "Blue" : "Red"} is played by a human participant.`
+              : "";
+            const modIntroMessages: ChatMessage[] = [
+              { role: "system", content: MODERATOR_INTRO_SYSTEM },
+              {
+                role: "user",
+                content: `The debate topic is: "${question}"\n\nBlue argues FOR. Red argues AGAINST.\n\nFormat: ${format.name} (${format.description}). Order: ${describePhases(format, blueFirst)}.\n\n${orderNote}${humanNote}`,
+              },
+            ];
 
-          let lastBlueMsg = "";
-          let lastRedMsg = "";
+            const modIntro = await speak({
+              messages: modIntroMessages,
+              label: "moderator-intro",
+              speaker: "moderator",
+              model: debateModel.id,
+              apiKey,
+              signal: upstream.signal,
+              meter,
+              seed,
+            });
+
+            cleanedModIntro = cleanModeratorContent(modIntro);
+            console.log(
+              `[debate-mode] moderator-intro: done (${cleanedModIntro.length} chars)`
+            );
+            send({
+              speaker: "moderator",
+              type: "done",
+              content: cleanedModIntro,
+              usage: modIntro.usage,
+              ...(modIntro.fallback ? { fallback: true } : {}),
+            });
+            debateHistory.push({ speaker: "moderator", content: cleanedModIntro });
+          }
 
-          for (let i = 0; i < turns.length; i++) {
+          // ── DEBATE PHASES ───────────────────────────────────
+          // The format's phases flattened into one turn list. What each
+          // speaker sees of earlier turns depends on the memory setting.
+          const turns = scheduleTurns(format, clampedRounds);
+
+          let lastBlueMsg = resumed?.lastBlueMsg ?? "";
+          let lastRedMsg = resumed?.lastRedMsg ?? "";
+          const said: Record<DebateSide, string[]> = resumed?.said ?? { blue: [], red: [] };
+          // A moderator sub-question, put to both sides for one round
+          let followUp = resumed?.followUp ?? null;
+          // Rolling summary for "summary" memory, and how much of the history it covers
+          let memorySummary = resumed?.memorySummary ?? "";
+          let summarizedThrough = resumed?.summarizedThrough ?? 0;
+          const disputed: string[] = resumed?.disputed ?? [];
+          // What the fact-checker checks against, searched for only if the research came back empty
+          let factSources: SearchResult[] | null = null;
+          // The user's argument, spent on the turn the debate paused at
+          let humanArgument: string | null = resumed ? resumeArgument : null;
+
+          for (let i = resumed?.turn ?? 0; i < turns.length; i++) {
             if (isClosed) break;
 
-            const speaker = turns[i];
+            const { phase, round } = turns[i];
+            const speaker = resolveSide(turns[i].speaker, blueFirst);
             const isFor = speaker === "blue";
             const opponent = isFor ? "Red" : "Blue";
-            const round = Math.floor(i / 2) + 1;
             const label = `${speaker}-r${round}`;
-            console.log(`[debate-mode] ${label}: start`);
-            send({ speaker, type: "start", round });
-
-            // Only feed opponent's last message (never own prior output)
-            const opponentLastMsg = isFor ? lastRedMsg : lastBlueMsg;
-
-            let userContent: string;
-            if (i === 0) {
-              // First speaker: only has moderator intro
-              userContent = `Topic: "${question}"\n\nThe moderator said: ${cleanedModIntro}\n\nMake your case.`;
+            let cleaned: string;
+            let turnUsage: TokenUsage | undefined;
+            let usedFallback = false;
+            if (speaker === humanSide) {
+              // Pause here; the client posts the state back with the user's argument
+              if (humanArgument === null) {
+                console.log(`[debate-mode] ${label}: waiting for the human side`);
+                const state: DebateState = {
+                  turn: i,
+                  blueFirst,
+                  modIntro: cleanedModIntro,
+                  research,
+                  lastBlueMsg,
+                  lastRedMsg,
+                  said,
+                  ...(followUp ? { followUp } : {}),
+                  memorySummary,
+                  summarizedThrough,
+                  disputed,
+                  history: debateHistory,
+                };
+                send({
+                  type: "await-human",
+                  speaker,
+                  round,
+                  phase: phase.label,
+                  phaseKind: phase.kind,
+                  maxChars: phase.maxChars,
+                  state: signState(state, stateContext(question, format, clampedRounds, speaker)),
+                });
+                safeClose();
+                return;
+              }
+              cleaned = humanArgument.slice(0, phase.maxChars).trim() || HUMAN_PASS;
+              humanArgument = null;
+              console.log(`[debate-mode] ${label}: human turn (${cleaned.length} chars)`);
             } else {
-              // Every subsequent turn: only opponent's last message
-              userContent = `Topic: "${question}"\n\n${opponent} just said: ${opponentLastMsg}\n\nRespond directly.`;
+              console.log(`[debate-mode] ${label}: start (${phase.label})`);
+              send({ speaker, type: "start", round, phase: phase.label, phaseKind: phase.kind });
+
+              const opponentLastMsg = isFor ? lastRedMsg : lastBlueMsg;
+              const instruction = phase.speakerPrompts?.[turns[i].speaker] ?? phase.prompt;
+              // Until the opponent has spoken, only the moderator intro is available
+              const latest = opponentLastMsg
+                ? `${opponent} just said: ${opponentLastMsg}`
+                : `The moderator said: ${cleanedModIntro}`;
+              const recalled =
+                debaterMemory === "transcript"
+                  ? `The debate so far:\n${formatTranscript(debateHistory)}`
+                  : debaterMemory === "summary" && memorySummary
+                  ? `Summary of the debate so far: ${memorySummary}\n\n${latest}`
+                  : latest;
+
+              const userContent = [
+                `Topic: "${question}"`,
+                recalled,
+                debaterMemory !== "last" && said[speaker].length > 0
+                  ? "Stay consistent with your earlier points and build on them instead of repeating them."
+                  : "",
+                `Format: ${format.name}. Phase: ${phase.label}.`,
+                evidence && research[speaker].length > 0
+                  ? `Your research dossier:\n${formatDossier(research[speaker])}\n\nBack your claims with it where you can, citing entries by number like [1] just before the full stop. Cite only these entries.`
+                  : "",
+                followUp?.round === round
+                  ? `The moderator has stepped in and asks both sides: ${followUp.question} Address it directly.`
+                  : "",
+                format.steelmanFirst && opponentLastMsg
+                  ? `Before anything else, restate ${opponent}'s strongest argument in one sentence, as charitably as ${opponent} would. Then: ${instruction}`
+                  : instruction,
+                `Keep it under ${phase.maxChars} characters.`,
+              ]
+                .filter(Boolean)
+                .join("\n\n");
+
+              const messages: ChatMessage[] = [
+                { role: "system", content: DEBATER_SYSTEM(isFor ? "FOR" : "AGAINST") },
+                { role: "user", content: userContent },
+              ];
+
+              const reply = await speak({
+                messages,
+                label,
+                speaker,
+                model: debateModel.id,
+                apiKey,
+                signal: upstream.signal,
+                meter,
+                seed,
+              });
+              turnUsage = reply.usage;
+              usedFallback = reply.fallback;
+
+              cleaned = cleanDebateContent(reply, speaker, phase.maxChars, evidence);
+              console.log(`[debate-mode] ${label}: done (${cleaned.length} chars)`);
             }
+            let citations: Citation[] = [];
+            if (evidence) ({ text: cleaned, citations } = resolveCitations(cleaned, research[speaker]));
+            send({
+              speaker,
+              type: "done",
+              content: cleaned,
+              round,
+              phase: phase.label,
+              phaseKind: phase.kind,
+              usage: turnUsage,
+              ...(evidence ? { citations } : {}),
+              ...(speaker === humanSide ? { human: true } : {}),
+              ...(usedFallback ? { fallback: true } : {}),
+            });
+            debateHistory.push({ speaker, content: cleaned, round, phase: phase.label });
 
-            const messages: ChatMessage[] = [
-              { role: "system", content: DEBATER_SYSTEM(isFor ? "FOR" : "AGAINST") },
-              { role: "user", content: userContent },
-            ];
-
-            let turnContent = "";
-
-            for await (const chunk of streamFromOpenRouter(messages, label, apiKey)) {
-              if (isClosed) break;
-              if (chunk.type === "content" && chunk.text) {
-                turnContent += chunk.text;
+            // Track last message per speaker (feeds into opponent's next turn)
+            if (speaker === "blue") lastBlueMsg = cleaned;
+            else lastRedMsg = cleaned;
+            said[speaker].push(cleaned);
+
+            if (factCheck && cleaned !== HUMAN_PASS && !isClosed) {
+              if (!factSources) {
+                factSources = [...research.blue, ...research.red];
+                if (factSources.length === 0 && webResearchEnabled()) {
+                  factSources = await searchWikipedia(question, 3, upstream.signal);
+                }
               }
+              const claims = await checkTurnFacts({
+                question,
+                speaker,
+                text: cleaned,
+                sources: factSources,
+                model: debateModel.id,
+                apiKey,
+                signal: upstream.signal,
+                meter,
+                seed,
+              });
+              console.log(`[debate-mode] ${label}: fact check (${claims.length} claims)`);
+              send({ speaker, type: "factcheck", round, claims });
+              disputed.push(...describeDisputed(speaker === "blue" ? "Blue" : "Red", claims));
             }
 
-            const cleaned = cleanDebateContent(turnContent, speaker);
-            console.log(`[debate-mode] ${label}: done (${cleaned.length} chars)`);
-            send({ speaker, type: "done", content: cleaned });
-            debateHistory.push({ speaker, content: cleaned });
+            // ── END OF ROUND ─────────────────────────────────
+            const roundEnded = turns[i + 1]?.round !== round;
+            if (!roundEnded || i === turns.length - 1 || isClosed) continue;
+
+            if (adaptive) {
+              const check = await checkRound({
+                question,
+                said,
+                canRedirect: followUp === null,
+                model: debateModel.id,
+                apiKey,
+                signal: upstream.signal,
+                meter,
+                seed,
+              });
+              if (check.decision === "stop") {
+                console.log(`[debate-mode] early stop after round ${round}: ${check.signal}`);
+                send({ type: "early-stop", round, signal: check.signal, reason: check.reason });
+                break;
+              }
+              if (check.decision === "redirect") {
+                const subQuestion = check.sub_question.trim();
+                console.log(`[debate-mode] sub-question after round ${round}`);
+                followUp = { question: subQuestion, round: turns[i + 1].round };
+                send({ speaker: "moderator", type: "start", round, isFollowUp: true });
+                send({
+                  speaker: "moderator",
+                  type: "done",
+                  content: subQuestion,
+                  round,
+                  isFollowUp: true,
+                  signal: check.signal,
+                  reason: check.reason,
+                });
+                debateHistory.push({ speaker: "moderator", content: subQuestion });
+              }
+            }
 
-            // Track last message per speaker (feeds into opponent's next turn)
-            if (speaker === "blue") lastBlueMsg = cleaned;
-            else lastRedMsg = cleaned;
+            if (debaterMemory === "summary") {
+              memorySummary = await summarizeDebate({
+                question,
+                previousSummary: memorySummary,
+                turns: debateHistory.slice(summarizedThrough),
+                model: debateModel.id,
+                apiKey,
+                signal: upstream.signal,
+                meter,
+                seed,
+              });
+              summarizedThrough = debateHistory.length;
+              console.log(`[debate-mode] memory summary after round ${round} (${memorySummary.length} chars)`);
+            }
           }
 
           if (isClosed) { safeClose(); return; }
@@ -642,38 +1366,94 @@ export async function POST(request: NextRequest) {
           console.log("[debate-mode] verdict: start");
           send({ speaker: "moderator", type: "start", isVerdict: true });
 
-          const fullDebateContext = debateHistory
-            .map((h) => `[${h.speaker.toUpperCase()}]: ${h.content}`)
-            .join("\n\n");
+          const fullDebateContext = formatTranscript(debateHistory);
+          const disputedNote = disputed.length
+            ? `\n\nThe fact-checker disputed these claims:\n${disputed.join("\n")}`
+            : "";
+
+          // Scored first so the spoken verdict names the same winner.
+          // Panel judges score independently and in parallel.
+          // Only rounds actually played; an early stop skips the rest
+          const roundIds = [...new Set(debateHistory.flatMap((h) => (h.round ? [h.round] : [])))];
+          const ballots = (
+            await Promise.all(
+              judgeModels.map(async (judgeModel) => ({
+                model: judgeModel,
+                scorecard: await scoreDebate({
+                  question,
+                  transcript: evidence
+                    ? `${fullDebateContext}\n\nBlue's dossier:\n${formatDossier(research.blue)}\n\nRed's dossier:\n${formatDossier(research.red)}${disputedNote}`
+                    : `${fullDebateContext}${disputedNote}`,
+                  rounds: roundIds,
+                  model: judgeModel,
+                  apiKey,
+                  signal: upstream.signal,
+                  meter,
+                  seed,
+                }),
+              }))
+            )
+          ).filter((ballot): ballot is { model: string; scorecard: VerdictScorecard } => ballot.scorecard !== null);
+
+          let scorecard: VerdictScorecard | null = null;
+          let panel: VerdictPanel | null = null;
+          if (judgeModels.length > 1 && ballots.length > 0) {
+            ({ scorecard, panel } = combineScorecards(ballots, verdictAggregation));
+            console.log(
+              `[debate-mode] judge panel: ${panel.votes.blue}-${panel.votes.red} (${ballots.length}/${judgeModels.length} scored)`
+            );
+          } else {
+            scorecard = ballots[0]?.scorecard ?? null;
+          }
+
+          const winnerName = scorecard?.winner === "blue" ? "Blue" : "Red";
+          const scoredWinner = !scorecard
+            ? ""
+            : panel
+            ? `\n\nA panel of ${panel.judges.length} judges scored the debate and voted ${panel.votes.blue}-${panel.votes.red} (Blue-Red); by ${panel.aggregation === "majority" ? "majority vote" : "average score"} ${winnerName} wins. Announce that winner.`
+            : `\n\nYour scorecard has ${winnerName} winning, ${scorecardTotal(scorecard, "blue")} to ${scorecardTotal(scorecard, "red")} for Blue vs Red. Announce that winner.`;
 
           const verdictMessages: ChatMessage[] = [
             { role: "system", content: MODERATOR_SYSTEM },
             {
               role: "user",
-              content: `Topic: "${question}"\n\nThe debate:\n${fullDebateContext}\n\nWho won and why?`,
+              content: `Topic: "${question}"\n\nFormat: ${format.name}\n\nThe debate:\n${fullDebateContext}${disputedNote}${scoredWinner}\n\nWho won and why?`,
             },
           ];
 
-          let verdictContent = "";
-
-          for await (const chunk of streamFromOpenRouter(verdictMessages, "verdict", apiKey)) {
-            if (isClosed) break;
-            if (chunk.type === "content" && chunk.text) {
-              verdictContent += chunk.text;
-            }
-          }
+          const verdict = await speak({
+            messages: verdictMessages,
+            label: "verdict",
+            speaker: "moderator",
+            model: debateModel.id,
+            apiKey,
+            signal: upstream.signal,
+            meter,
+            seed,
+          });
+          const verdictContent = cleanModeratorContent(verdict);
 
           console.log(`[debate-mode] verdict: done (${verdictContent.length} chars)`);
           send({
             speaker: "moderator",
             type: "done",
-            content: cleanModeratorContent(verdictContent),
+            content: verdictContent,
             isVerdict: true,
+            usage: verdict.usage,
+            ...(verdict.fallback ? { fallback: true } : {}),
           });
+          if (scorecard) {
+            send({ speaker: "moderator", type: "verdict", scorecard, ...(panel ? { panel } : {}) });
+          }
 
-          send({ type: "complete" });
+          send({ type: "complete", usage: meter.total(), ...(seed !== undefined ? { seed } : {}) });
           safeClose();
         } catch (error) {
+          if (isAbortError(error)) {
+            console.log("[debate-mode] client disconnected, upstream calls aborted");
+            safeClose();
+            return;
+          }
           console.error("Debate mode error:", error);
           send({ type: "error", message: String(error) });
           safeClose();
@@ -681,16 +1461,11 @@ export async function POST(request: NextRequest) {
       },
       cancel() {
         isClosed = true;
+        upstream.abort();
       },
     });
 
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
-    });
+    return resumableResponse(stream, upstream);
   } catch (error) {
     console.error("Request error:", error);
     return new Response(JSON.stringify({ error: "Internal server error" }), {
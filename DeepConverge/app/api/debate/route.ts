@@ -1,104 +1,227 @@
 import { NextRequest } from "next/server";
-import { agents, agentOrder } from "@/lib/agents";
-import { AgentRole } from "@/lib/types";
+import {
+  agents,
+  clampParallelRuns,
+  clampRebuttalRounds,
+  debateSchedule,
+  parseLineup,
+  withModelOverrides,
+} from "@/lib/agents";
+import { AgentKind, DebateTurn } from "@/lib/types";
+import { isUsageLimitError, requiresApiKey, webResearchEnabled } from "@/lib/llm/provider";
+import { completeWithFallback, ModelSwitch, streamWithFallback } from "@/lib/llm/fallback";
+import { abortUntilDetached, isAbortError } from "@/lib/llm/abort";
+import { findModel } from "@/lib/llm/catalog";
+import { ChatMessage, TokenUsage } from "@/lib/llm/types";
+import { addUsage, createUsageMeter, emptyUsage, UsageMeter } from "@/lib/llm/usage";
+import { completeStructured, JsonSchema, StructuredOutputError } from "@/lib/llm/structured";
+import { CheckedClaim, describeDisputed, factCheckTurn } from "@/lib/fact-check";
+import { searchWikipedia, SearchResult } from "@/lib/wikipedia";
+import { resumableResponse } from "@/lib/sse-replay";
+import { isValidSeed, MAX_SEED, randomSeed } from "@/lib/seed";
 
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
-const MODEL = "nvidia/nemotron-3-nano-30b-a3b:free";
+const USAGE_LIMIT_MESSAGE =
+  "USAGE_LIMIT: You've hit your usage limit. Extra usage is coming once beta mode is over. Thank you for testing our product!";
 
-interface ChatMessage {
-  role: "system" | "user" | "assistant";
+interface DebateResponse {
+  name: string;
+  kind: AgentKind;
+  round: number;
   content: string;
 }
 
-interface StreamChunk {
-  type: "reasoning" | "content";
-  text: string;
-}
+/** Added to each agent's temperature per run so parallel runs sample differently */
+const RUN_TEMPERATURE_OFFSETS = [0, 0.2, -0.2, 0.35, -0.35];
 
-async function* streamFromOpenRouter(
-  messages: ChatMessage[],
-  apiKey: string
-): AsyncGenerator<StreamChunk> {
-  const response = await fetch(OPENROUTER_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "HTTP-Referer": process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
-      "X-Title": "DeepConverge Debate",
-    },
-    body: JSON.stringify({
-      model: MODEL,
-      messages,
-      stream: true,
-      temperature: 0.7,
-      max_tokens: 4096,
-      // Enable OpenRouter's native reasoning feature
-      reasoning: {
-        effort: "high",
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    if (
-      response.status === 429 ||
-      response.status === 402 ||
-      error.toLowerCase().includes("credits") ||
-      error.toLowerCase().includes("quota")
-    ) {
-      throw new Error(
-        "USAGE_LIMIT: You've hit your usage limit. Extra usage is coming once beta mode is over. Thank you for testing our product!"
-      );
-    }
-    throw new Error(`OpenRouter API error: ${response.status} - ${error}`);
-  }
+interface RunAggregate {
+  content: string;
+  /** 0-100: how far the runs reached the same conclusion; null when unscored */
+  agreement: number | null;
+  consensus: string[];
+  divergences: string[];
+}
 
-  const reader = response.body?.getReader();
-  if (!reader) throw new Error("No response body");
+const AGGREGATE_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["answer", "agreement", "consensus", "divergences"],
+  properties: {
+    answer: { type: "string" },
+    agreement: { type: "integer", minimum: 0, maximum: 100 },
+    consensus: { type: "array", items: { type: "string" } },
+    divergences: { type: "array", items: { type: "string" } },
+  },
+};
 
-  const decoder = new TextDecoder();
-  let buffer = "";
+/** The user prompt for one turn; every turn after the first sees the full exchange */
+function buildTurnPrompt(
+  question: string,
+  turn: DebateTurn,
+  responses: DebateResponse[],
+  disputed: string[] = []
+): string {
+  if (responses.length === 0) {
+    return `Question: ${question}`;
+  }
 
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
+  const exchange = responses
+    .map((response) => `${response.name} (round ${response.round}):\n${response.content}`)
+    .join("\n\n");
 
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() || "";
+  if (turn.agent.kind === "judge") {
+    const flagged = disputed.length
+      ? `\n\nThe fact-checker disputed these claims; weigh them accordingly:\n${disputed.join("\n")}`
+      : "";
+    return `Question: ${question}\n\nFull debate:\n${exchange}${flagged}`;
+  }
+  if (turn.round === 1) {
+    return `Question: ${question}\n\nArguments so far:\n${exchange}`;
+  }
+  return `Question: ${question}\n\nDebate so far:\n${exchange}\n\nRound ${turn.round} rebuttal: answer the other speakers' latest points directly and strengthen your position. Do not repeat arguments you have already made.`;
+}
 
-    for (const line of lines) {
-      if (line.startsWith("data: ")) {
-        const data = line.slice(6);
-        if (data === "[DONE]") return;
+/** A run's conclusion: its judges' rulings, or the last round when it has no judge */
+function runConclusion(responses: DebateResponse[]): string {
+  const judged = responses.filter((response) => response.kind === "judge");
+  const lastRound = responses[responses.length - 1]?.round;
+  const conclusion = judged.length > 0 ? judged : responses.filter((response) => response.round === lastRound);
+  return conclusion.map((response) => `${response.name}:\n${response.content}`).join("\n\n");
+}
 
-        try {
-          const parsed = JSON.parse(data);
-          const delta = parsed.choices?.[0]?.delta;
+/** Claims from one agent's turn; empty when the check fails, since it only annotates */
+async function checkAgentFacts(params: {
+  question: string;
+  speaker: string;
+  text: string;
+  sources: SearchResult[];
+  model: string;
+  apiKey: string;
+  signal: AbortSignal;
+  meter: UsageMeter;
+  /** Agent id the check's usage is reported under */
+  agent: string;
+  seed?: number;
+}): Promise<CheckedClaim[]> {
+  try {
+    return await factCheckTurn({
+      question: params.question,
+      speaker: params.speaker,
+      text: params.text,
+      sources: params.sources,
+      ask: async (messages, responseFormat) => {
+        const result = await completeWithFallback(
+          {
+            model: params.model,
+            messages,
+            apiKey: params.apiKey,
+            temperature: 0.2,
+            maxTokens: 600,
+            reasoning: { effort: "none", exclude: true },
+            responseFormat,
+            title: "DeepConverge Debate - fact check",
+            signal: params.signal,
+            seed: params.seed,
+          },
+          agents.judge.fallbackModels
+        );
+        params.meter.record(result.usage, "fact-check", params.agent);
+        return result.content || result.reasoning;
+      },
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn("[debate] fact check failed:", error instanceof Error ? error.message : error);
+    return [];
+  }
+}
 
-          // Handle native reasoning tokens from OpenRouter
-          if (delta?.reasoning) {
-            yield { type: "reasoning", text: delta.reasoning };
-          }
-          // Handle regular content
-          if (delta?.content) {
-            yield { type: "content", text: delta.content };
-          }
-        } catch {
-          // Skip invalid JSON
-        }
-      }
-    }
+/**
+ * Reconciles the conclusions of independent runs into one answer and rates
+ * how much they agree. Falls back to the first run's conclusion, unscored,
+ * when the reply never matches the schema.
+ */
+async function aggregateRuns(params: {
+  question: string;
+  runs: { run: number; responses: DebateResponse[] }[];
+  model: string;
+  apiKey: string;
+  signal: AbortSignal;
+  meter: UsageMeter;
+  seed?: number;
+}): Promise<RunAggregate> {
+  const conclusions = params.runs
+    .map(({ run, responses }) => `Run ${run + 1}:\n${runConclusion(responses)}`)
+    .join("\n\n---\n\n");
+  try {
+    const { value } = await completeStructured<{
+      answer: string;
+      agreement: number;
+      consensus: string[];
+      divergences: string[];
+    }>({
+      name: "run_aggregate",
+      schema: AGGREGATE_SCHEMA,
+      messages: [
+        {
+          role: "system",
+          content:
+            "You reconcile several independent debates on the same question. Write the single best final answer, rate from 0 to 100 how far the runs reached the same conclusion, list the points they agree on and the points where they diverged (name the runs). Reply with only a JSON object matching the schema.",
+        },
+        { role: "user", content: `Question: ${params.question}\n\n${conclusions}` },
+      ],
+      ask: async (messages, responseFormat) => {
+        const result = await completeWithFallback(
+          {
+            model: params.model,
+            messages,
+            apiKey: params.apiKey,
+            temperature: 0.2,
+            maxTokens: 2048,
+            reasoning: { effort: "none", exclude: true },
+            responseFormat,
+            title: "DeepConverge Debate - aggregate",
+            signal: params.signal,
+            seed: params.seed,
+          },
+          agents.judge.fallbackModels
+        );
+        params.meter.record(result.usage, "aggregator");
+        return result.content || result.reasoning;
+      },
+    });
+    return {
+      content: value.answer.trim(),
+      agreement: value.agreement,
+      consensus: value.consensus,
+      divergences: value.divergences,
+    };
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) throw error;
+    console.warn("[debate] aggregate output invalid:", error.message);
+    return {
+      content: runConclusion(params.runs[0].responses),
+      agreement: null,
+      consensus: [],
+      divergences: ["The runs could not be reconciled automatically; showing the first run's conclusion."],
+    };
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { question, apiKey } = await request.json();
+    const {
+      question,
+      apiKey,
+      agentSettings,
+      model,
+      rounds,
+      lineup,
+      runs,
+      factCheck = false,
+      seed,
+    } = await request.json();
 
-    if (!apiKey || typeof apiKey !== "string") {
+    if (requiresApiKey() && (!apiKey || typeof apiKey !== "string")) {
       return new Response(
         JSON.stringify({ error: "API key is required. Please add your OpenRouter API key in Settings." }),
         { status: 401, headers: { "Content-Type": "application/json" } }
@@ -112,8 +235,57 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // A top-level `model` replaces every agent's default; agentSettings still win
+    let lineupModel: string | undefined;
+    if (model !== undefined) {
+      const found = typeof model === "string" && model.trim() ? await findModel(model.trim()) : null;
+      if (!found) {
+        return new Response(JSON.stringify({ error: `Unknown model: ${model}` }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      lineupModel = found.id;
+    }
+
+    // Built-in role ids and/or user-defined agents, in speaking order
+    const parsed = parseLineup(lineup, lineupModel);
+    if ("error" in parsed) {
+      return new Response(JSON.stringify({ error: parsed.error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    // Per-request overrides keyed by agent id, e.g. { judge: { model, temperature } }
+    const settings =
+      agentSettings && typeof agentSettings === "object" ? (agentSettings as Record<string, unknown>) : {};
+    const lineupAgents = parsed.lineup.map((agent) => withModelOverrides(agent, settings[agent.id]));
+    // Override models are checked like lineup models, before anything streams
+    for (const agentModel of new Set(lineupAgents.map((agent) => agent.model))) {
+      if (agentModel !== lineupModel && !(await findModel(agentModel))) {
+        return new Response(JSON.stringify({ error: `Unknown model: ${agentModel}` }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // Rebuttal rounds after the openings; 0 gives the original single pass
+    const schedule = debateSchedule(lineupAgents, clampRebuttalRounds(rounds));
+    // Self-consistency: K independent debates, reconciled by the aggregator
+    const runCount = clampParallelRuns(runs);
+    // Parallel runs sample with seed, seed + 1, ...; a single run uses the seed as is
+    if (seed !== undefined && !isValidSeed(seed)) {
+      return new Response(JSON.stringify({ error: `seed must be an integer from 0 to ${MAX_SEED}` }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const baseSeed: number = seed ?? randomSeed();
+
     const encoder = new TextEncoder();
-    const responses: { role: AgentRole; content: string }[] = [];
+    // Outlives a dropped connection so the client can resume; see lib/sse-replay
+    const upstream = abortUntilDetached(request);
 
     let isClosed = false;
 
@@ -140,104 +312,215 @@ export async function POST(request: NextRequest) {
           }
         };
 
-        try {
-          for (const agentRole of agentOrder) {
+        const send = (obj: Record<string, unknown>) => {
+          safeEnqueue(encoder.encode(`data: ${JSON.stringify(obj)}\n\n`));
+        };
+
+        // One meter per run so usage events can name their run and round
+        const meters: UsageMeter[] = [];
+        const grandTotal = () => meters.reduce((sum, meter) => addUsage(sum, meter.total()), emptyUsage());
+
+        // One search on the question, shared by every run's fact checks
+        let factSources: Promise<SearchResult[]> | null = null;
+
+        /** Plays the whole schedule once; `run` is set only in self-consistency mode */
+        const runDebate = async (run?: number): Promise<DebateResponse[]> => {
+          const lane = run === undefined ? {} : { run };
+          const responses: DebateResponse[] = [];
+          // Disputed claims so far, put to the judges
+          const disputed: string[] = [];
+          let round = 1;
+          const runSeed = run === undefined ? seed : (baseSeed + run) % (MAX_SEED + 1);
+          const meter = createUsageMeter((usage, _total, label, agentRole) => {
+            send({ agent: agentRole, label, round, ...lane, type: "usage", usage, total: grandTotal() });
+          });
+          meters.push(meter);
+
+          for (const turn of schedule) {
             if (isClosed) break;
+            const agent = turn.agent;
+            const agentRole = agent.id;
+            round = turn.round;
 
-            const agent = agents[agentRole];
             const messages: ChatMessage[] = [
               { role: "system", content: agent.systemPrompt },
+              { role: "user", content: buildTurnPrompt(question, turn, responses, disputed) },
             ];
 
-            // Build context based on agent role
-            if (agentRole === "critic") {
-              const advocateResponse = responses.find((r) => r.role === "advocate");
-              messages.push({
-                role: "user",
-                content: `Question: ${question}\n\nAdvocate's Argument:\n${advocateResponse?.content || ""}`,
-              });
-            } else if (agentRole === "judge") {
-              const advocateResponse = responses.find((r) => r.role === "advocate");
-              const criticResponse = responses.find((r) => r.role === "critic");
-              messages.push({
-                role: "user",
-                content: `Question: ${question}\n\nAdvocate's Argument:\n${advocateResponse?.content || ""}\n\nCritic's Argument:\n${criticResponse?.content || ""}`,
-              });
-            } else {
-              messages.push({
-                role: "user",
-                content: `Question: ${question}`,
-              });
-            }
-
             // Signal start of this agent
-            safeEnqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({ agent: agentRole, type: "start" })}\n\n`
-              )
-            );
+            send({
+              agent: agentRole,
+              round,
+              ...lane,
+              type: "start",
+              model: agent.model,
+              profile: {
+                id: agent.id,
+                name: agent.name,
+                description: agent.description,
+                color: agent.color,
+                icon: agent.icon,
+                kind: agent.kind,
+              },
+            });
 
             let fullContent = "";
             let reasoning = "";
+            let usage: TokenUsage | undefined;
+            let answeredBy = agent.model;
+            const onSwitch = (event: ModelSwitch) => {
+              answeredBy = event.to;
+              send({ agent: agentRole, round, ...lane, type: "model-switched", ...event });
+            };
+
+            const chunks = streamWithFallback(
+              {
+                model: agent.model,
+                messages,
+                apiKey,
+                temperature:
+                  run === undefined
+                    ? agent.temperature
+                    : Math.min(Math.max(agent.temperature + RUN_TEMPERATURE_OFFSETS[run], 0), 2),
+                maxTokens: agent.maxTokens,
+                // Enable OpenRouter's native reasoning feature
+                reasoning: agent.reasoningEffort === "none" ? undefined : { effort: agent.reasoningEffort },
+                seed: runSeed,
+                title: "DeepConverge Debate",
+                signal: upstream.signal,
+              },
+              agent.fallbackModels,
+              onSwitch
+            );
 
-            for await (const chunk of streamFromOpenRouter(messages, apiKey)) {
+            for await (const chunk of chunks) {
               if (isClosed) break;
 
               if (chunk.type === "reasoning") {
                 // Stream reasoning tokens
                 reasoning += chunk.text;
-                safeEnqueue(
-                  encoder.encode(
-                    `data: ${JSON.stringify({ agent: agentRole, type: "reasoning", content: reasoning })}\n\n`
-                  )
-                );
+                send({ agent: agentRole, round, ...lane, type: "reasoning", content: reasoning });
               } else if (chunk.type === "content") {
                 // Stream content tokens
                 fullContent += chunk.text;
-                safeEnqueue(
-                  encoder.encode(
-                    `data: ${JSON.stringify({ agent: agentRole, type: "content", content: fullContent })}\n\n`
-                  )
-                );
+                send({ agent: agentRole, round, ...lane, type: "content", content: fullContent });
+              } else if (chunk.type === "usage") {
+                usage = chunk.usage;
+                meter.record(chunk.usage, agentRole);
               }
             }
 
             // Signal end of this agent
-            safeEnqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({ agent: agentRole, type: "done", content: fullContent, reasoning })}\n\n`
-              )
+            send({
+              agent: agentRole,
+              round,
+              ...lane,
+              type: "done",
+              content: fullContent,
+              reasoning,
+              usage,
+              model: answeredBy,
+            });
+
+            responses.push({ name: agent.name, kind: agent.kind, round, content: fullContent });
+
+            // Judges rule on the debate rather than argue it, so only debaters are checked
+            if (factCheck && agent.kind !== "judge" && fullContent.trim() && !isClosed) {
+              factSources ??= webResearchEnabled()
+                ? searchWikipedia(question, 5, upstream.signal)
+                : Promise.resolve([]);
+              const claims = await checkAgentFacts({
+                question,
+                speaker: agent.name,
+                text: fullContent,
+                sources: await factSources,
+                model: lineupModel ?? agents.judge.model,
+                apiKey,
+                signal: upstream.signal,
+                meter,
+                agent: agentRole,
+                seed: runSeed,
+              });
+              send({ agent: agentRole, round, ...lane, type: "factcheck", claims });
+              disputed.push(...describeDisputed(agent.name, claims));
+            }
+          }
+          return responses;
+        };
+
+        try {
+          if (runCount === 1) {
+            await runDebate();
+          } else {
+            const settled = await Promise.allSettled(
+              Array.from({ length: runCount }, (_, run) => runDebate(run))
             );
+            const finished: { run: number; responses: DebateResponse[] }[] = [];
+            settled.forEach((result, run) => {
+              if (result.status === "fulfilled") {
+                finished.push({ run, responses: result.value });
+              } else if (!isAbortError(result.reason)) {
+                // One failed run shouldn't sink the others
+                console.warn(`[debate] run ${run + 1} failed:`, result.reason);
+                send({
+                  run,
+                  type: "run-error",
+                  message: isUsageLimitError(result.reason) ? USAGE_LIMIT_MESSAGE : String(result.reason),
+                });
+              }
+            });
+            if (isClosed) {
+              safeClose();
+              return;
+            }
+            if (finished.length === 0) {
+              const failure = settled.find((result) => result.status === "rejected");
+              throw failure?.status === "rejected" ? failure.reason : new Error("Every run failed");
+            }
 
-            responses.push({ role: agentRole, content: fullContent });
+            send({ type: "aggregate-start", runs: finished.length });
+            const aggregateMeter = createUsageMeter((usage) => {
+              send({ agent: "aggregator", type: "usage", usage, total: grandTotal() });
+            });
+            meters.push(aggregateMeter);
+            const aggregate = await aggregateRuns({
+              question,
+              runs: finished,
+              model: lineupModel ?? agents.judge.model,
+              apiKey,
+              signal: upstream.signal,
+              meter: aggregateMeter,
+              seed,
+            });
+            send({ type: "aggregate", runs: finished.length, ...aggregate });
           }
 
           // Signal debate complete
-          safeEnqueue(
-            encoder.encode(`data: ${JSON.stringify({ type: "complete" })}\n\n`)
-          );
+          send({ type: "complete", usage: grandTotal(), ...(seed !== undefined ? { seed } : {}) });
           safeClose();
         } catch (error) {
+          if (isAbortError(error)) {
+            safeClose();
+            return;
+          }
           console.error("Debate error:", error);
-          safeEnqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({ type: "error", message: String(error) })}\n\n`
-            )
-          );
+          const message = isUsageLimitError(error) ? USAGE_LIMIT_MESSAGE : String(error);
+          send({ type: "error", message });
           safeClose();
         }
       },
       cancel() {
         isClosed = true;
+        upstream.abort();
       },
     });
 
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
+    // `content` and `reasoning` carry the whole text so far, per agent and run
+    return resumableResponse(stream, upstream, {
+      snapshotKey: (event) =>
+        event.type === "content" || event.type === "reasoning"
+          ? `${event.type}:${event.agent}:${event.run ?? 0}:${event.round ?? 0}`
+          : undefined,
     });
   } catch (error) {
     console.error("Request error:", error);
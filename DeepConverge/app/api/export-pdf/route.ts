@@ -1,6 +1,7 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
 import { jsPDF } from "jspdf";
+import { readAgentProfile } from "@/lib/supabase/agents";
 
 async function createSupabaseClient() {
   const cookieStore = await cookies();
@@ -102,7 +103,7 @@ export async function GET() {
 
     const messagesByConv: Record<
       string,
-      Array<{ role: string; content: string; created_at: string }>
+      Array<{ role: string; content: string; created_at: string; metadata?: Record<string, unknown> }>
     > = {};
     for (const msg of allMessages || []) {
       if (!messagesByConv[msg.conversation_id]) {
@@ -187,7 +188,8 @@ export async function GET() {
       doc.setFontSize(9);
       doc.setFont("helvetica", "normal");
       doc.setTextColor(120, 120, 120);
-      const modeLabel = conv.mode === "debate" ? "Debate" : "Chat";
+      const modeLabel =
+        conv.mode === "debate" ? "Debate" : conv.mode === "analysis" ? "Analysis" : "Chat";
       const dateStr = new Date(conv.created_at).toLocaleString("en-US", {
         year: "numeric",
         month: "short",
@@ -218,7 +220,13 @@ export async function GET() {
             ? "Red Debater"
             : msg.role === "moderator"
             ? "Moderator"
-            : msg.role;
+            : msg.role === "advocate"
+            ? "Advocate"
+            : msg.role === "critic"
+            ? "Critic"
+            : msg.role === "judge"
+            ? "Judge"
+            : readAgentProfile(msg.metadata?.agent)?.name ?? msg.role;
 
         // Role label
         doc.setFontSize(10);
@@ -0,0 +1,22 @@
+import { getModelCatalog } from "@/lib/llm/catalog";
+import { DEFAULT_CHAT_MODEL, DEFAULT_DEBATE_MODEL, DEFAULT_VISION_MODEL } from "@/lib/models";
+
+export async function GET() {
+  try {
+    const models = await getModelCatalog();
+    return Response.json(
+      {
+        models,
+        defaults: {
+          chat: DEFAULT_CHAT_MODEL,
+          debate: DEFAULT_DEBATE_MODEL,
+          vision: DEFAULT_VISION_MODEL,
+        },
+      },
+      { headers: { "Cache-Control": "public, max-age=300" } }
+    );
+  } catch (error) {
+    console.error("Models error:", error);
+    return Response.json({ error: "Could not load models" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { cancelStream, resumeStream } from "@/lib/sse-replay";
+
+// Reconnects to a buffered stream from /api/chat, /api/debate or
+// /api/debate-mode; the id comes from their `X-Stream-Id` header.
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  // EventSource sends the header; fetch-based clients may use the query string
+  const lastEventId = Number(
+    request.headers.get("Last-Event-ID") ?? request.nextUrl.searchParams.get("lastEventId") ?? 0
+  );
+
+  const response = resumeStream(id, Number.isFinite(lastEventId) ? lastEventId : 0);
+  if (!response) {
+    return new Response(JSON.stringify({ error: "Stream not found or expired" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  return response;
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!cancelStream(id)) {
+    return new Response(JSON.stringify({ error: "Stream not found or expired" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  return new Response(null, { status: 204 });
+}
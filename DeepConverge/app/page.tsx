@@ -10,20 +10,74 @@ import remarkGfm from "remark-gfm";
 import rehypeKatex from "rehype-katex";
 import "katex/dist/katex.min.css";
 import { preprocessLaTeX } from "@/lib/latex";
-import DebateCanvas from "@/components/DebateCanvas";
+import DebateCanvas, { type DebateRecord, type EarlyStop } from "@/components/DebateCanvas";
+import AnalysisCanvas, { type AnalysisTurn } from "@/components/AnalysisCanvas";
+import AgentFlow from "@/components/AgentFlow";
+import DebateInput from "@/components/DebateInput";
 import SettingsPanel from "@/components/SettingsPanel";
+import ModelPicker from "@/components/ModelPicker";
 import { createClient } from "@/lib/supabase/client";
 import type { User } from "@supabase/supabase-js";
 import {
   createConversation,
   saveMessage as dbSaveMessage,
   loadConversations,
+  loadConversationUsage,
   loadMessages,
   deleteConversation,
   touchConversation,
   type Conversation,
 } from "@/lib/supabase/conversations";
 import { getProfile } from "@/lib/supabase/profile";
+import type { TokenUsage } from "@/lib/llm/types";
+import type { CheckedClaim } from "@/lib/fact-check";
+import type { Citation } from "@/lib/wikipedia";
+import { formatUsage } from "@/lib/llm/usage";
+import { readResumableEvents, RESUME_HEADERS } from "@/lib/resumable-events";
+import { MAX_SEED, isValidSeed, parseSeedInput, randomSeed } from "@/lib/seed";
+import {
+  BUILTIN_MODELS,
+  DEFAULT_CHAT_MODEL,
+  DEFAULT_DEBATE_MODEL,
+  type ModelInfo,
+} from "@/lib/models";
+import type { AgentProfile, LineupEntry } from "@/lib/types";
+import {
+  DEBATE_FORMATS,
+  DEBATE_MEMORY_MODES,
+  DEFAULT_DEBATE_FORMAT,
+  DEFAULT_DEBATE_MEMORY,
+  DebateMemory,
+  DebateSide,
+} from "@/lib/debate-formats";
+import {
+  MAX_JUDGE_PANEL,
+  readScorecard,
+  readVerdictPanel,
+  type VerdictAggregation,
+} from "@/lib/debate-scoring";
+import {
+  agents,
+  agentOrder,
+  DEFAULT_REBUTTAL_ROUNDS,
+  MAX_PARALLEL_RUNS,
+  MAX_REBUTTAL_ROUNDS,
+} from "@/lib/agents";
+import {
+  customAgentProfile,
+  loadCustomAgents,
+  readAgentProfile,
+  toLineupEntry,
+  type CustomAgent,
+} from "@/lib/supabase/agents";
+import AgentRoster from "@/components/AgentRoster";
+
+type ConvergentLogRole =
+  | "judge"
+  | "debater_a"
+  | "debater_b"
+  | "executor"
+  | "judge_parse_error";
 
 interface Message {
   id: string;
@@ -47,7 +101,7 @@ interface Message {
     maxRounds: number;
     logs: Array<{
       id: string;
-      role: "judge" | "debater_a" | "debater_b" | "executor";
+      role: ConvergentLogRole;
       round: number;
       content: string;
     }>;
@@ -55,10 +109,9 @@ interface Message {
   };
 }
 
-type Mode = "agentic" | "debate";
+type Mode = "agentic" | "debate" | "analysis";
 type DebatePhase = "setup" | "active";
 type DebateType = "regular" | "continuous";
-type AgenticModel = "nemotron9b" | "nemotron30b";
 type PendingAttachment = {
   kind: "image" | "pdf";
   name: string;
@@ -68,17 +121,6 @@ type PendingAttachment = {
 
 const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
 
-const AGENTIC_MODELS: Record<AgenticModel, { label: string; display: string }> = {
-  nemotron9b: {
-    label: "NVIDIA: Nemotron Nano 9B V2 (free)",
-    display: "Nemotron Nano 9B V2 (free)",
-  },
-  nemotron30b: {
-    label: "NVIDIA: Nemotron 3 Nano 30B A3B",
-    display: "Nemotron 3 Nano 30B A3B",
-  },
-};
-
 const BLOCKED_DEBATE_TOPIC_PATTERNS: RegExp[] = [
   /\b(suicide|self-harm|kill myself|how to die)\b/i,
   /\b(rape|sexual assault|child porn|cp|incest)\b/i,
@@ -108,6 +150,21 @@ function validateDebateTopic(topic: string): { allowed: boolean; message?: strin
   return { allowed: true };
 }
 
+/** Landing tabs; `branch` is that mode's arm of the converging-arrows graphic */
+const MODE_TABS: { mode: Mode; label: string; branch: string }[] = [
+  {
+    mode: "agentic",
+    label: "Agentic Mode",
+    branch: "M60 0 L60 18 Q60 25, 67 25 L153 25 Q160 25, 160 32",
+  },
+  { mode: "analysis", label: "Analysis Mode", branch: "M160 0 L160 32" },
+  {
+    mode: "debate",
+    label: "Debate Mode",
+    branch: "M260 0 L260 18 Q260 25, 253 25 L167 25 Q160 25, 160 32",
+  },
+];
+
 const TYPEWRITER_PROMPTS = [
   "Can you help me solve this equation?",
   "Search the web for today's top news",
@@ -134,6 +191,7 @@ export default function Home() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const agenticPanelRef = useRef<HTMLDivElement>(null);
   const debatePanelRef = useRef<HTMLDivElement>(null);
+  const analysisPanelRef = useRef<HTMLDivElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -145,8 +203,34 @@ export default function Home() {
   const [debateQuestion, setDebateQuestion] = useState("");
   const [debateType, setDebateType] = useState<DebateType>("regular");
   const [continuousRounds, setContinuousRounds] = useState(3);
+  const [debateFormat, setDebateFormat] = useState(DEFAULT_DEBATE_FORMAT);
+  const [judgeModels, setJudgeModels] = useState<string[]>([DEFAULT_DEBATE_MODEL]);
+  const [judgeAggregation, setJudgeAggregation] = useState<VerdictAggregation>("majority");
+  const [debateAdaptive, setDebateAdaptive] = useState(true);
+  const [debateMemory, setDebateMemory] = useState<DebateMemory>(DEFAULT_DEBATE_MEMORY);
+  const [debateHuman, setDebateHuman] = useState<DebateSide | "">("");
+  const [debateEvidence, setDebateEvidence] = useState(false);
+  const [debateFactCheck, setDebateFactCheck] = useState(false);
+  const [debateSeedInput, setDebateSeedInput] = useState("");
+  const [debateSeed, setDebateSeed] = useState<number | undefined>();
+  const [debateRunId, setDebateRunId] = useState(0);
   const [debateGuardError, setDebateGuardError] = useState<string | null>(null);
-  const [debateReplayMessages, setDebateReplayMessages] = useState<{ speaker: string; content: string }[] | null>(null);
+  const [debateReplayMessages, setDebateReplayMessages] = useState<DebateRecord[] | null>(null);
+
+  // Analysis state (Advocate → Critic → Judge via /api/debate)
+  const [analysisQuestion, setAnalysisQuestion] = useState("");
+  const [analysisPhase, setAnalysisPhase] = useState<DebatePhase>("setup");
+  const [analysisRunId, setAnalysisRunId] = useState(0);
+  const [analysisRounds, setAnalysisRounds] = useState(DEFAULT_REBUTTAL_ROUNDS);
+  const [analysisRuns, setAnalysisRuns] = useState(1);
+  const [analysisFactCheck, setAnalysisFactCheck] = useState(false);
+  const [analysisSeedInput, setAnalysisSeedInput] = useState("");
+  const [analysisSeed, setAnalysisSeed] = useState<number | undefined>();
+  // The question to prefill when returning to setup to vary a finished run
+  const [analysisDraft, setAnalysisDraft] = useState("");
+  const [analysisLineup, setAnalysisLineup] = useState<string[]>([...agentOrder]);
+  const [customAgents, setCustomAgents] = useState<CustomAgent[]>([]);
+  const [analysisReplayMessages, setAnalysisReplayMessages] = useState<AnalysisTurn[] | null>(null);
 
   // Sidebar state
   const [sidebarOpen, setSidebarOpen] = useState(true);
@@ -157,6 +241,7 @@ export default function Home() {
 
   // Conversation history state
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationUsage, setConversationUsage] = useState<Record<string, TokenUsage>>({});
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
   const [isExportingPdf, setIsExportingPdf] = useState(false);
 
@@ -165,6 +250,25 @@ export default function Home() {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [profileDisplayName, setProfileDisplayName] = useState<string | null>(null);
 
+  // Model catalog + per-mode selection
+  const [models, setModels] = useState<ModelInfo[]>(BUILTIN_MODELS);
+  const [chatModel, setChatModel] = useState(DEFAULT_CHAT_MODEL);
+  const [debateModel, setDebateModel] = useState(DEFAULT_DEBATE_MODEL);
+  const [analysisModel, setAnalysisModel] = useState(DEFAULT_CHAT_MODEL);
+
+  useEffect(() => {
+    fetch("/api/models")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (Array.isArray(data?.models) && data.models.length > 0) {
+          setModels(data.models);
+        }
+      })
+      .catch(() => {
+        // Keep the builtin list
+      });
+  }, []);
+
   // Auth initialization
   useEffect(() => {
     const supabase = createClient();
@@ -194,6 +298,7 @@ export default function Home() {
     }
     const supabase = createClient();
     loadConversations(supabase, user.id).then(setConversations);
+    loadCustomAgents(supabase, user.id).then(setCustomAgents);
     getProfile(supabase, user.id).then((profile) => {
       if (profile?.openrouter_api_key) {
         setOpenrouterApiKey(profile.openrouter_api_key);
@@ -211,6 +316,15 @@ export default function Home() {
     }
   }, [user]);
 
+  // Token and cost totals for the sidebar, summed from message metadata
+  useEffect(() => {
+    const supabase = createClient();
+    loadConversationUsage(
+      supabase,
+      conversations.map((conv) => conv.id)
+    ).then(setConversationUsage);
+  }, [conversations]);
+
   const refreshConversations = useCallback(() => {
     if (!user) return;
     const supabase = createClient();
@@ -277,6 +391,44 @@ export default function Home() {
   const handleLoadConversation = async (conv: Conversation) => {
     const supabase = createClient();
     const dbMessages = await loadMessages(supabase, conv.id);
+    // Seed and setup saved when the run started, so it can be re-run
+    const seed = isValidSeed(conv.metadata?.seed) ? conv.metadata.seed : undefined;
+    const settings = (conv.metadata?.settings ?? {}) as Record<string, unknown>;
+
+    if (conv.mode === "analysis") {
+      const replay: AnalysisTurn[] = [];
+      for (const m of dbMessages) {
+        // Custom agents carry their profile; older rows only have a built-in role
+        const agent =
+          readAgentProfile(m.metadata?.agent) ??
+          (Object.hasOwn(agents, m.role) ? agents[m.role as keyof typeof agents] : null);
+        if (!agent) continue;
+        replay.push({
+          agent,
+          content: m.content,
+          reasoning: m.reasoning || undefined,
+          round: typeof m.metadata?.round === "number" ? m.metadata.round : undefined,
+          run: typeof m.metadata?.run === "number" ? m.metadata.run : undefined,
+          claims: Array.isArray(m.metadata?.claims) ? (m.metadata.claims as CheckedClaim[]) : undefined,
+          agreement: typeof m.metadata?.agreement === "number" ? m.metadata.agreement : undefined,
+          consensus: Array.isArray(m.metadata?.consensus) ? m.metadata.consensus : undefined,
+          divergences: Array.isArray(m.metadata?.divergences) ? m.metadata.divergences : undefined,
+        });
+      }
+      setAnalysisReplayMessages(replay);
+      setAnalysisQuestion(dbMessages.find((m) => m.role === "user")?.content || conv.title);
+      setAnalysisSeed(seed);
+      if (typeof settings.model === "string") setAnalysisModel(settings.model);
+      if (typeof settings.rounds === "number") setAnalysisRounds(settings.rounds);
+      if (typeof settings.runs === "number") setAnalysisRuns(settings.runs);
+      if (typeof settings.factCheck === "boolean") setAnalysisFactCheck(settings.factCheck);
+      if (Array.isArray(settings.lineup)) setAnalysisLineup(settings.lineup as string[]);
+      setActiveConversationId(conv.id);
+      setMessages([]);
+      setMode("analysis");
+      setAnalysisPhase("active");
+      return;
+    }
 
     if (conv.mode === "debate") {
       // Map debate roles back to DebateCanvas speaker format
@@ -290,9 +442,38 @@ export default function Home() {
         .map((m) => ({
           speaker: roleMap[m.role],
           content: m.content,
+          round: typeof m.metadata?.round === "number" ? m.metadata.round : undefined,
+          phase: typeof m.metadata?.phase === "string" ? m.metadata.phase : undefined,
+          scorecard: readScorecard(m.metadata?.scorecard) ?? undefined,
+          panel: readVerdictPanel(m.metadata?.panel) ?? undefined,
+          isFollowUp: m.metadata?.isFollowUp === true || undefined,
+          isHuman: m.metadata?.isHuman === true || undefined,
+          fallback: m.metadata?.fallback === true || undefined,
+          citations: Array.isArray(m.metadata?.citations)
+            ? (m.metadata.citations as Citation[])
+            : undefined,
+          claims: Array.isArray(m.metadata?.claims) ? (m.metadata.claims as CheckedClaim[]) : undefined,
+          earlyStop:
+            m.metadata?.earlyStop && typeof m.metadata.earlyStop === "object"
+              ? (m.metadata.earlyStop as EarlyStop)
+              : undefined,
         }));
       setDebateReplayMessages(replay);
-      setDebateQuestion(conv.title);
+      setDebateQuestion(typeof conv.metadata?.question === "string" ? conv.metadata.question : conv.title);
+      setDebateSeed(seed);
+      if (typeof settings.model === "string") setDebateModel(settings.model);
+      if (typeof settings.format === "string") setDebateFormat(settings.format);
+      if (typeof settings.memory === "string") setDebateMemory(settings.memory as DebateMemory);
+      if (typeof settings.adaptive === "boolean") setDebateAdaptive(settings.adaptive);
+      if (typeof settings.evidence === "boolean") setDebateEvidence(settings.evidence);
+      if (typeof settings.factCheck === "boolean") setDebateFactCheck(settings.factCheck);
+      if (Array.isArray(settings.judges)) setJudgeModels(settings.judges as string[]);
+      if (settings.aggregation === "majority" || settings.aggregation === "average") {
+        setJudgeAggregation(settings.aggregation);
+      }
+      if (settings.human === "blue" || settings.human === "red" || settings.human === "") {
+        setDebateHuman(settings.human);
+      }
       setActiveConversationId(conv.id);
       setMessages([]);
       setMode("debate");
@@ -383,7 +564,12 @@ export default function Home() {
   };
 
   const syncModePanelHeight = () => {
-    const activePanel = mode === "agentic" ? agenticPanelRef.current : debatePanelRef.current;
+    const activePanel =
+      mode === "agentic"
+        ? agenticPanelRef.current
+        : mode === "analysis"
+        ? analysisPanelRef.current
+        : debatePanelRef.current;
     if (!activePanel) return;
     setModePanelHeight(activePanel.offsetHeight);
   };
@@ -424,6 +610,7 @@ export default function Home() {
     setAnimatedConvergence({});
     setInput("");
     setDebatePhase("setup");
+    setAnalysisPhase("setup");
     setMode("agentic");
     setActiveConversationId(null);
   };
@@ -431,7 +618,9 @@ export default function Home() {
   const handleNewDebate = () => {
     setMode("debate");
     setDebatePhase("setup");
+    setAnalysisPhase("setup");
     setDebateQuestion("");
+    setDebateSeedInput("");
     setDebateGuardError(null);
     setInput("");
   };
@@ -441,7 +630,6 @@ export default function Home() {
     setMode(nextMode);
   };
 
-  const activeModel: AgenticModel = "nemotron30b";
 
   const formatGeneratedAt = (iso: string | undefined) => {
     if (!iso) return "";
@@ -682,7 +870,7 @@ export default function Home() {
       status: fileToSend
         ? fileToSend.kind === "pdf"
           ? "Analyzing PDF."
-          : "Analyzing image with the Nemotron Nano 12B V2 model."
+          : "Analyzing image."
         : undefined,
       reasoning: "",
       isStreaming: true,
@@ -698,6 +886,9 @@ export default function Home() {
         : undefined,
     };
 
+    // Convergent runs are seeded so a saved answer can be traced back to its run
+    const seed = convergentEnabled ? randomSeed() : undefined;
+
     setMessages((prev) => [...prev, userMessage, assistantMessage]);
     setInput("");
     setAttachedFile(null);
@@ -726,17 +917,20 @@ export default function Home() {
 
     let finalContent = "";
     let finalReasoning = "";
+    let finalUsage: TokenUsage | undefined;
+    let finalModel: string | undefined;
 
     try {
       const response = await fetch("/api/chat", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...RESUME_HEADERS },
         body: JSON.stringify({
           message: trimmedInput,
-          model: activeModel,
+          model: chatModel,
           thinking: convergentEnabled,
           convergentThinking: convergentEnabled,
           webSearch: webSearchEnabled,
+          seed,
           imageDataUrl: fileToSend?.kind === "image" ? fileToSend.dataUrl : undefined,
           pdfDataUrl: fileToSend?.kind === "pdf" ? fileToSend.dataUrl : undefined,
           apiKey: openrouterApiKey,
@@ -747,192 +941,203 @@ export default function Home() {
       if (!response.ok) {
         throw new Error(`API error: ${response.status}`);
       }
+      // Reconnects on its own if the connection drops; Stop still ends it on the server
+      const events = readResumableEvents(response, {
+        signal: abortController.signal,
+        onReconnect: (attempt) =>
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantMessage.id
+                ? { ...msg, status: `Connection lost, reconnecting (attempt ${attempt})...` }
+                : msg
+            )
+          ),
+      });
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("No response body");
-
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              if (data.type === "reasoning") {
-                finalReasoning = typeof data.content === "string" ? data.content : "";
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id
-                      ? { ...msg, reasoning: data.content, status: undefined }
-                      : msg
-                  )
-                );
-              } else if (data.type === "status") {
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id
-                      ? {
-                          ...msg,
-                          status: typeof data.content === "string" ? data.content : msg.status,
-                        }
-                      : msg
-                  )
-                );
-              } else if (data.type === "web-search-start") {
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id
-                      ? { ...msg, isSearchingWeb: true, status: undefined }
-                      : msg
-                  )
-                );
-              } else if (data.type === "web-search-done") {
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id
-                      ? { ...msg, isSearchingWeb: false }
-                      : msg
-                  )
-                );
-              } else if (data.type === "convergent_start") {
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id
-                      ? {
-                          ...msg,
-                          convergent: {
-                            status: "running",
-                            score: typeof data.score === "number" ? data.score : 0,
-                            round: typeof data.round === "number" ? data.round : 0,
-                            maxRounds: typeof data.maxRounds === "number" ? data.maxRounds : 0,
-                            logs: msg.convergent?.logs || [],
-                            clarifyingQuestions: msg.convergent?.clarifyingQuestions || [],
-                          },
-                        }
-                      : msg
-                  )
-                );
-              } else if (data.type === "convergent_log") {
-                setMessages((prev) =>
-                  prev.map((msg) => {
-                    if (msg.id !== assistantMessage.id) return msg;
-                    const log = {
-                      id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
-                      role: data.role as "judge" | "debater_a" | "debater_b" | "executor",
-                      round: typeof data.round === "number" ? data.round : 0,
-                      content: typeof data.content === "string" ? data.content : "",
-                    };
-                    return {
+      for await (const event of events) {
+        try {
+          const data = JSON.parse(event.data);
+
+          if (data.type === "reasoning") {
+            finalReasoning = typeof data.content === "string" ? data.content : "";
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessage.id
+                  ? { ...msg, reasoning: data.content, status: undefined }
+                  : msg
+              )
+            );
+          } else if (data.type === "status") {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessage.id
+                  ? {
+                      ...msg,
+                      status: typeof data.content === "string" ? data.content : msg.status,
+                    }
+                  : msg
+              )
+            );
+          } else if (data.type === "model-switched") {
+            finalModel = typeof data.to === "string" ? data.to : finalModel;
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessage.id
+                  ? {
+                      ...msg,
+                      status: `${data.from} is unavailable (${data.status}), switched to ${data.to}.`,
+                    }
+                  : msg
+              )
+            );
+          } else if (data.type === "web-search-start") {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessage.id
+                  ? { ...msg, isSearchingWeb: true, status: undefined }
+                  : msg
+              )
+            );
+          } else if (data.type === "web-search-done") {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessage.id
+                  ? { ...msg, isSearchingWeb: false }
+                  : msg
+              )
+            );
+          } else if (data.type === "convergent_start") {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessage.id
+                  ? {
+                      ...msg,
+                      convergent: {
+                        status: "running",
+                        score: typeof data.score === "number" ? data.score : 0,
+                        round: typeof data.round === "number" ? data.round : 0,
+                        maxRounds: typeof data.maxRounds === "number" ? data.maxRounds : 0,
+                        logs: msg.convergent?.logs || [],
+                        clarifyingQuestions: msg.convergent?.clarifyingQuestions || [],
+                      },
+                    }
+                  : msg
+              )
+            );
+          } else if (data.type === "convergent_log") {
+            setMessages((prev) =>
+              prev.map((msg) => {
+                if (msg.id !== assistantMessage.id) return msg;
+                const log = {
+                  id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+                  role: data.role as ConvergentLogRole,
+                  round: typeof data.round === "number" ? data.round : 0,
+                  content: typeof data.content === "string" ? data.content : "",
+                };
+                return {
+                  ...msg,
+                  convergent: {
+                    status: msg.convergent?.status || "running",
+                    score: msg.convergent?.score ?? 0,
+                    round: msg.convergent?.round ?? 0,
+                    maxRounds: msg.convergent?.maxRounds ?? 0,
+                    logs: [...(msg.convergent?.logs || []), log],
+                    clarifyingQuestions: msg.convergent?.clarifyingQuestions || [],
+                  },
+                };
+              })
+            );
+          } else if (data.type === "convergence_state") {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessage.id
+                  ? {
+                      ...msg,
+                      convergent: {
+                        status:
+                          data.status === "converged"
+                            ? "converged"
+                            : data.status === "needs_input"
+                            ? "needs_input"
+                            : "running",
+                        score:
+                          typeof data.score === "number"
+                            ? data.score
+                            : msg.convergent?.score ?? 0,
+                        round:
+                          typeof data.round === "number"
+                            ? data.round
+                            : msg.convergent?.round ?? 0,
+                        maxRounds:
+                          typeof data.maxRounds === "number"
+                            ? data.maxRounds
+                            : msg.convergent?.maxRounds ?? 0,
+                        logs: msg.convergent?.logs || [],
+                        clarifyingQuestions: msg.convergent?.clarifyingQuestions || [],
+                      },
+                    }
+                  : msg
+              )
+            );
+          } else if (data.type === "clarifying_questions") {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessage.id
+                  ? {
                       ...msg,
                       convergent: {
-                        status: msg.convergent?.status || "running",
+                        status: "needs_input",
                         score: msg.convergent?.score ?? 0,
                         round: msg.convergent?.round ?? 0,
                         maxRounds: msg.convergent?.maxRounds ?? 0,
-                        logs: [...(msg.convergent?.logs || []), log],
-                        clarifyingQuestions: msg.convergent?.clarifyingQuestions || [],
+                        logs: msg.convergent?.logs || [],
+                        clarifyingQuestions: Array.isArray(data.questions)
+                          ? data.questions
+                          : [],
                       },
-                    };
-                  })
-                );
-              } else if (data.type === "convergence_state") {
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id
-                      ? {
-                          ...msg,
-                          convergent: {
+                    }
+                  : msg
+              )
+            );
+          } else if (data.type === "content") {
+            finalContent = typeof data.content === "string" ? data.content : "";
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessage.id
+                  ? { ...msg, content: data.content, status: undefined }
+                  : msg
+              )
+            );
+          } else if (data.type === "usage") {
+            finalUsage = data.total;
+          } else if (data.type === "done") {
+            if (data.usage) finalUsage = data.usage;
+            if (typeof data.model === "string") finalModel = data.model;
+            const generatedAt = new Date().toISOString();
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessage.id
+                  ? {
+                      ...msg,
+                      isStreaming: false,
+                      status: undefined,
+                      convergent: msg.convergent
+                        ? {
+                            ...msg.convergent,
                             status:
-                              data.status === "converged"
+                              msg.convergent.status === "running"
                                 ? "converged"
-                                : data.status === "needs_input"
-                                ? "needs_input"
-                                : "running",
-                            score:
-                              typeof data.score === "number"
-                                ? data.score
-                                : msg.convergent?.score ?? 0,
-                            round:
-                              typeof data.round === "number"
-                                ? data.round
-                                : msg.convergent?.round ?? 0,
-                            maxRounds:
-                              typeof data.maxRounds === "number"
-                                ? data.maxRounds
-                                : msg.convergent?.maxRounds ?? 0,
-                            logs: msg.convergent?.logs || [],
-                            clarifyingQuestions: msg.convergent?.clarifyingQuestions || [],
-                          },
-                        }
-                      : msg
-                  )
-                );
-              } else if (data.type === "clarifying_questions") {
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id
-                      ? {
-                          ...msg,
-                          convergent: {
-                            status: "needs_input",
-                            score: msg.convergent?.score ?? 0,
-                            round: msg.convergent?.round ?? 0,
-                            maxRounds: msg.convergent?.maxRounds ?? 0,
-                            logs: msg.convergent?.logs || [],
-                            clarifyingQuestions: Array.isArray(data.questions)
-                              ? data.questions
-                              : [],
-                          },
-                        }
-                      : msg
-                  )
-                );
-              } else if (data.type === "content") {
-                finalContent = typeof data.content === "string" ? data.content : "";
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id
-                      ? { ...msg, content: data.content, status: undefined }
-                      : msg
-                  )
-                );
-              } else if (data.type === "done") {
-                const generatedAt = new Date().toISOString();
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id
-                      ? {
-                          ...msg,
-                          isStreaming: false,
-                          status: undefined,
-                          convergent: msg.convergent
-                            ? {
-                                ...msg.convergent,
-                                status:
-                                  msg.convergent.status === "running"
-                                    ? "converged"
-                                    : msg.convergent.status,
-                              }
-                            : undefined,
-                          generatedAt,
-                        }
-                      : msg
-                  )
-                );
-              }
-            } catch {
-              // Skip invalid JSON
-            }
+                                : msg.convergent.status,
+                          }
+                        : undefined,
+                      generatedAt,
+                    }
+                  : msg
+              )
+            );
           }
+        } catch {
+          // Skip invalid JSON
         }
       }
     } catch (error) {
@@ -973,7 +1178,18 @@ export default function Home() {
       // Save assistant message to DB
       if (user && activeConvId && finalContent) {
         const supabase = createClient();
-        await dbSaveMessage(supabase, activeConvId, "assistant", finalContent, finalReasoning || undefined);
+        await dbSaveMessage(
+          supabase,
+          activeConvId,
+          "assistant",
+          finalContent,
+          finalReasoning || undefined,
+          {
+            ...(finalUsage ? { usage: finalUsage } : {}),
+            ...(finalModel ? { model: finalModel } : {}),
+            ...(seed !== undefined ? { seed } : {}),
+          }
+        );
         await touchConversation(supabase, activeConvId);
         refreshConversations();
       }
@@ -981,12 +1197,16 @@ export default function Home() {
   };
 
   // ── Debate helpers ───────────────────────────────────────────────────
-  const startDebate = async () => {
+  /** `seedOverride` re-runs a finished debate; otherwise the typed seed, or a random one */
+  const startDebate = async (seedOverride?: number) => {
     if (!openrouterApiKey) {
       setSettingsOpen(true);
       return;
     }
     if (!debateQuestion.trim()) return;
+    const typedSeed = parseSeedInput(debateSeedInput);
+    if (seedOverride === undefined && typedSeed === null) return;
+    const seed = seedOverride ?? typedSeed ?? randomSeed();
     const check = validateDebateTopic(debateQuestion);
     if (!check.allowed) {
       setDebateGuardError(check.message || "This debate topic is not allowed.");
@@ -994,6 +1214,9 @@ export default function Home() {
     }
     setDebateGuardError(null);
     setDebateReplayMessages(null); // Clear replay — this is a live debate
+    setDebateSeed(seed);
+    setDebateRunId((id) => id + 1);
+    setActiveConversationId(null);
     setDebatePhase("active");
 
     // Create debate conversation in DB
@@ -1003,15 +1226,41 @@ export default function Home() {
         supabase,
         user.id,
         "debate",
-        debateQuestion.slice(0, 50)
+        debateQuestion.slice(0, 50),
+        {
+          seed,
+          question: debateQuestion,
+          settings: {
+            model: debateModel,
+            format: debateFormat,
+            memory: debateMemory,
+            adaptive: debateAdaptive,
+            evidence: debateEvidence,
+            factCheck: debateFactCheck,
+            judges: judgeModels,
+            aggregation: judgeAggregation,
+            human: debateHuman,
+          },
+        }
       );
       if (convId) setActiveConversationId(convId);
     }
   };
 
-  const handleDebateFinished = async (
-    debateMessages: { speaker: string; content: string }[]
-  ) => {
+  const handleDebateRerun = (vary: boolean) => {
+    if (debateSeed === undefined) return;
+    if (!vary) {
+      startDebate(debateSeed);
+      return;
+    }
+    // Back to setup with the topic and seed filled in, so one setting can change
+    setDebateSeedInput(String(debateSeed));
+    setDebateReplayMessages(null);
+    setActiveConversationId(null);
+    setDebatePhase("setup");
+  };
+
+  const handleDebateFinished = async (debateMessages: DebateRecord[]) => {
     if (!user || !activeConversationId) return;
     const supabase = createClient();
     for (const msg of debateMessages) {
@@ -1021,17 +1270,136 @@ export default function Home() {
           : msg.speaker === "red"
           ? "debater_red"
           : "moderator";
-      await dbSaveMessage(supabase, activeConversationId, role, msg.content);
+      await dbSaveMessage(
+        supabase,
+        activeConversationId,
+        role,
+        msg.content,
+        undefined,
+        {
+          usage: msg.usage,
+          round: msg.round,
+          phase: msg.phase,
+          format: debateFormat,
+          ...(msg.scorecard ? { scorecard: msg.scorecard } : {}),
+          ...(msg.panel ? { panel: msg.panel } : {}),
+          ...(msg.isFollowUp ? { isFollowUp: true } : {}),
+          ...(msg.isHuman ? { isHuman: true } : {}),
+          ...(msg.citations ? { citations: msg.citations } : {}),
+          ...(msg.claims ? { claims: msg.claims } : {}),
+          ...(msg.fallback ? { fallback: true } : {}),
+          ...(msg.earlyStop ? { earlyStop: msg.earlyStop } : {}),
+        }
+      );
+    }
+    await touchConversation(supabase, activeConversationId);
+    refreshConversations();
+  };
+
+  // ── Analysis helpers ─────────────────────────────────────────────────
+  /** `seedOverride` re-runs a finished analysis; otherwise the typed seed, or a random one */
+  const startAnalysis = async (question: string, seedOverride?: number) => {
+    if (!openrouterApiKey) {
+      setSettingsOpen(true);
+      return;
+    }
+    const typedSeed = parseSeedInput(analysisSeedInput);
+    if (seedOverride === undefined && typedSeed === null) return;
+    const seed = seedOverride ?? typedSeed ?? randomSeed();
+    setAnalysisQuestion(question);
+    setAnalysisSeed(seed);
+    setAnalysisDraft("");
+    setAnalysisReplayMessages(null);
+    setAnalysisRunId((id) => id + 1);
+    setActiveConversationId(null);
+    setAnalysisPhase("active");
+
+    if (user) {
+      const supabase = createClient();
+      const convId = await createConversation(
+        supabase,
+        user.id,
+        "analysis",
+        question.slice(0, 50),
+        {
+          seed,
+          settings: {
+            model: analysisModel,
+            rounds: analysisRounds,
+            runs: analysisRuns,
+            factCheck: analysisFactCheck,
+            lineup: analysisLineup,
+          },
+        }
+      );
+      if (convId) {
+        setActiveConversationId(convId);
+        await dbSaveMessage(supabase, convId, "user", question);
+      }
+    }
+  };
+
+  const handleAnalysisRerun = (vary: boolean) => {
+    if (analysisSeed === undefined) return;
+    if (!vary) {
+      startAnalysis(analysisQuestion, analysisSeed);
+      return;
+    }
+    setAnalysisSeedInput(String(analysisSeed));
+    setAnalysisDraft(analysisQuestion);
+    setAnalysisReplayMessages(null);
+    setActiveConversationId(null);
+    setAnalysisPhase("setup");
+  };
+
+  const handleAnalysisFinished = async (turns: AnalysisTurn[]) => {
+    if (!user || !activeConversationId) return;
+    const supabase = createClient();
+    for (const turn of turns) {
+      await dbSaveMessage(
+        supabase,
+        activeConversationId,
+        turn.agent.id,
+        turn.content,
+        turn.reasoning,
+        {
+          usage: turn.usage,
+          model: turn.model,
+          round: turn.round,
+          agent: turn.agent,
+          ...(turn.run !== undefined ? { run: turn.run } : {}),
+          ...(turn.claims ? { claims: turn.claims } : {}),
+          // The aggregator's reconciliation of parallel runs
+          ...(turn.agreement !== undefined
+            ? { agreement: turn.agreement, consensus: turn.consensus, divergences: turn.divergences }
+            : {}),
+        }
+      );
     }
     await touchConversation(supabase, activeConversationId);
     refreshConversations();
   };
 
+  // Saved agents that were deleted elsewhere drop out of the lineup
+  const analysisLineupEntries: LineupEntry[] = analysisLineup.flatMap((id): LineupEntry[] => {
+    if (Object.hasOwn(agents, id)) return [id as keyof typeof agents];
+    const custom = customAgents.find((agent) => agent.id === id);
+    return custom ? [toLineupEntry(custom)] : [];
+  });
+  const analysisLineupProfiles: AgentProfile[] = analysisLineup.flatMap((id) => {
+    if (Object.hasOwn(agents, id)) return [agents[id as keyof typeof agents]];
+    const custom = customAgents.find((agent) => agent.id === id);
+    return custom ? [customAgentProfile(custom)] : [];
+  });
+
   const debateRounds = 2;
   // ── Derived values ───────────────────────────────────────────────────
   const sidebarWidth = sidebarOpen ? 240 : 56;
   const isAgenticMode = mode === "agentic";
-  const isDebateActive = mode === "debate" && debatePhase === "active";
+  const isDebateMode = mode === "debate";
+  const isAnalysisMode = mode === "analysis";
+  const isDebateActive = isDebateMode && debatePhase === "active";
+  const isAnalysisActive = isAnalysisMode && analysisPhase === "active";
   const isLanding = messages.length === 0;
 
   // ── AUTH LOADING ─────────────────────────────────────────────────────
@@ -1423,8 +1791,62 @@ export default function Home() {
                           <p className="text-xs text-[#4b5563] truncate">
                             {conv.title}
                           </p>
-                          <p className="text-[10px] text-[#9ca3af]">
+                          <p className="text-[10px] text-[#9ca3af] truncate">
                             {new Date(conv.updated_at).toLocaleDateString()}
+                            {conversationUsage[conv.id] &&
+                              ` · ${formatUsage(conversationUsage[conv.id])}`}
+                          </p>
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteConversation(conv.id);
+                          }}
+                          className="opacity-0 group-hover:opacity-100 p-0.5 rounded hover:bg-[#e5e7eb] transition-all text-[#9ca3af] hover:text-[#ef4444]"
+                          title="Delete"
+                        >
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </div>
+                    ))}
+                </div>
+              )}
+
+              <div className="mt-4 mb-2 border-t border-[#ebebeb]" />
+
+              <h3 className="text-[10px] font-semibold uppercase tracking-widest text-[#9ca3af] mb-2 px-1 mt-3">
+                Analysis History
+              </h3>
+              {conversations.filter((c) => c.mode === "analysis").length === 0 ? (
+                <div className="text-xs text-[#9ca3af] py-2 px-1">
+                  No sessions yet
+                </div>
+              ) : (
+                <div className="space-y-0.5">
+                  {conversations
+                    .filter((c) => c.mode === "analysis")
+                    .map((conv) => (
+                      <div
+                        key={conv.id}
+                        className={`group flex items-center gap-1 rounded-lg px-2 py-1.5 cursor-pointer transition-colors ${
+                          activeConversationId === conv.id
+                            ? "bg-[#e5e7eb]"
+                            : "hover:bg-[#f3f4f6]"
+                        }`}
+                      >
+                        <button
+                          onClick={() => handleLoadConversation(conv)}
+                          className="flex-1 text-left min-w-0"
+                        >
+                          <p className="text-xs text-[#4b5563] truncate">
+                            {conv.title}
+                          </p>
+                          <p className="text-[10px] text-[#9ca3af] truncate">
+                            {new Date(conv.updated_at).toLocaleDateString()}
+                            {conversationUsage[conv.id] &&
+                              ` · ${formatUsage(conversationUsage[conv.id])}`}
                           </p>
                         </button>
                         <button
@@ -1473,8 +1895,10 @@ export default function Home() {
                           <p className="text-xs text-[#4b5563] truncate">
                             {conv.title}
                           </p>
-                          <p className="text-[10px] text-[#9ca3af]">
+                          <p className="text-[10px] text-[#9ca3af] truncate">
                             {new Date(conv.updated_at).toLocaleDateString()}
+                            {conversationUsage[conv.id] &&
+                              ` · ${formatUsage(conversationUsage[conv.id])}`}
                           </p>
                         </button>
                         <button
@@ -1545,9 +1969,12 @@ export default function Home() {
                   Active Model
                 </p>
               </div>
-              <p className="text-xs font-semibold text-[#2d2d2d]">
-                {AGENTIC_MODELS[activeModel].display}
-              </p>
+              <ModelPicker
+                models={models}
+                value={chatModel}
+                onChange={setChatModel}
+                className="w-72 mb-1"
+              />
               <p className="text-[11px] text-[#6b7280]">
                 ConvergentThinking {convergentEnabled ? "On" : "Off"}
               </p>
@@ -1558,13 +1985,41 @@ export default function Home() {
           </div>
         )}
 
-        {isDebateActive ? (
+        {isAnalysisActive ? (
+          <div className="flex-1 min-h-0 overflow-y-auto">
+            <AnalysisCanvas
+              key={analysisReplayMessages ? `replay-${activeConversationId}` : `run-${analysisRunId}`}
+              question={analysisQuestion}
+              apiKey={openrouterApiKey || ""}
+              model={analysisModel}
+              rounds={analysisRounds}
+              lineup={analysisLineupEntries}
+              runs={analysisRuns}
+              factCheck={analysisFactCheck}
+              seed={analysisSeed}
+              onRerun={handleAnalysisRerun}
+              onAnalysisFinished={handleAnalysisFinished}
+              replayMessages={analysisReplayMessages || undefined}
+            />
+          </div>
+        ) : isDebateActive ? (
           <div className="flex-1 min-h-0">
             <DebateCanvas
-              key={activeConversationId || "live"}
+              key={`${activeConversationId || "live"}-${debateRunId}`}
               question={debateQuestion}
               rounds={debateRounds}
               apiKey={openrouterApiKey || ""}
+              model={debateModel}
+              format={debateFormat}
+              judges={judgeModels}
+              aggregation={judgeAggregation}
+              adaptive={debateAdaptive}
+              memory={debateMemory}
+              human={debateHuman || undefined}
+              evidence={debateEvidence}
+              factCheck={debateFactCheck}
+              seed={debateSeed}
+              onRerun={handleDebateRerun}
               onDebateFinished={handleDebateFinished}
               replayMessages={debateReplayMessages || undefined}
             />
@@ -1604,79 +2059,40 @@ export default function Home() {
             )}
 
             {/* Mode tabs */}
-            <div className="flex items-center gap-16 mb-0">
-              <button
-                onClick={() => handleModeChange("agentic")}
-                className={`text-base px-1 pb-1 transition-all duration-300 ${
-                  isAgenticMode
-                    ? "text-[#2d2d2d] font-semibold"
-                    : "text-[#c0c0c0] hover:text-[#9ca3af]"
-                }`}
-              >
-                Agentic Mode
-              </button>
-              <button
-                onClick={() => handleModeChange("debate")}
-                className={`text-base px-1 pb-1 transition-all duration-300 ${
-                  !isAgenticMode
-                    ? "text-[#2d2d2d] font-semibold"
-                    : "text-[#c0c0c0] hover:text-[#9ca3af]"
-                }`}
-              >
-                Debate Mode
-              </button>
+            <div className="flex items-center gap-10 mb-0">
+              {MODE_TABS.map((tab) => (
+                <button
+                  key={tab.mode}
+                  onClick={() => handleModeChange(tab.mode)}
+                  className={`text-base px-1 pb-1 transition-all duration-300 ${
+                    mode === tab.mode
+                      ? "text-[#2d2d2d] font-semibold"
+                      : "text-[#c0c0c0] hover:text-[#9ca3af]"
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
             </div>
 
             {/* L-shaped converging arrows SVG */}
             <svg viewBox="0 0 320 70" className="w-80 h-[70px] mb-6" aria-hidden="true">
-              {isAgenticMode ? (
-                <>
-                  {/* Inactive branch first */}
-                  <path
-                    d="M240 0 L240 18 Q240 25, 233 25 L167 25 Q160 25, 160 32"
-                    fill="none"
-                    stroke="#e0e0e0"
-                    strokeWidth={1.5}
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="transition-all duration-500 ease-in-out"
-                  />
-                  {/* Active branch on top */}
-                  <path
-                    d="M80 0 L80 18 Q80 25, 87 25 L153 25 Q160 25, 160 32"
-                    fill="none"
-                    stroke="#2d2d2d"
-                    strokeWidth={2.5}
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="transition-all duration-500 ease-in-out"
-                  />
-                </>
-              ) : (
-                <>
-                  {/* Inactive branch first */}
-                  <path
-                    d="M80 0 L80 18 Q80 25, 87 25 L153 25 Q160 25, 160 32"
-                    fill="none"
-                    stroke="#e0e0e0"
-                    strokeWidth={1.5}
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="transition-all duration-500 ease-in-out"
-                  />
-                  {/* Active branch on top */}
+              {/* Inactive branches first, active branch on top */}
+              {[...MODE_TABS]
+                .sort((a, b) => Number(a.mode === mode) - Number(b.mode === mode))
+                .map((tab) => (
                   <path
-                    d="M240 0 L240 18 Q240 25, 233 25 L167 25 Q160 25, 160 32"
+                    key={tab.mode}
+                    d={tab.branch}
                     fill="none"
-                    stroke="#2d2d2d"
-                    strokeWidth={2.5}
+                    stroke={tab.mode === mode ? "#2d2d2d" : "#e0e0e0"}
+                    strokeWidth={tab.mode === mode ? 2.5 : 1.5}
                     strokeLinecap="round"
                     strokeLinejoin="round"
                     className="transition-all duration-500 ease-in-out"
                   />
-                </>
-              )}
-              {/* Shared vertical trunk (kept solid in both modes) */}
+                ))}
+              {/* Shared vertical trunk (kept solid in every mode) */}
               <path
                 d="M160 32 L160 58"
                 fill="none"
@@ -1846,11 +2262,11 @@ export default function Home() {
               <div
                 ref={debatePanelRef}
                 className={`absolute inset-x-0 top-0 transition-[opacity,transform,filter] duration-500 ease-[cubic-bezier(0.22,1,0.36,1)] will-change-[opacity,transform] ${
-                !isAgenticMode
+                isDebateMode
                   ? "opacity-100 translate-y-0 blur-0 pointer-events-auto"
                   : "opacity-0 translate-y-1 blur-[2px] pointer-events-none"
                 }`}
-                aria-hidden={isAgenticMode}
+                aria-hidden={!isDebateMode}
               >
                 <div className="space-y-6">
                   <p className="text-center text-[#6b7280] text-sm">
@@ -1875,7 +2291,7 @@ export default function Home() {
                       onKeyDown={(e) => e.key === "Enter" && startDebate()}
                       placeholder="e.g., Is AI going to replace programmers?"
                       className="w-full bg-[#fffaf2] rounded-xl px-4 py-3 border border-[#e5e7eb] outline-none focus:ring-2 focus:ring-[#7c6bf5]/30 focus:border-[#7c6bf5] text-[#2d2d2d] placeholder-[#9ca3af]"
-                      tabIndex={!isAgenticMode ? 0 : -1}
+                      tabIndex={isDebateMode ? 0 : -1}
                     />
                     <p className="mt-2 text-xs text-[#6b7280]">
                       Debate agents can make mistakes and may not have current information. Verify important facts.
@@ -1887,6 +2303,197 @@ export default function Home() {
                     )}
                   </div>
 
+                  {/* Debate model */}
+                  <div>
+                    <label className="block text-sm font-medium text-[#2d2d2d] mb-2">
+                      Debate Model
+                    </label>
+                    <ModelPicker
+                      models={models}
+                      value={debateModel}
+                      onChange={(id) => {
+                        // A lone judge follows the debate model unless it was changed separately
+                        setJudgeModels((prev) => (prev.length === 1 && prev[0] === debateModel ? [id] : prev));
+                        setDebateModel(id);
+                      }}
+                      tabIndex={isDebateMode ? 0 : -1}
+                    />
+                  </div>
+
+                  {/* Debate format */}
+                  <div>
+                    <label className="block text-sm font-medium text-[#2d2d2d] mb-2">
+                      Debate Format
+                    </label>
+                    <select
+                      value={debateFormat}
+                      onChange={(e) => setDebateFormat(e.target.value)}
+                      className="w-full bg-[#fffaf2] rounded-lg px-2 py-1.5 border border-[#e5e7eb] outline-none focus:ring-2 focus:ring-[#7c6bf5]/30 focus:border-[#7c6bf5] text-xs text-[#2d2d2d]"
+                      tabIndex={isDebateMode ? 0 : -1}
+                    >
+                      {DEBATE_FORMATS.map((format) => (
+                        <option key={format.id} value={format.id}>
+                          {format.name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-2 text-xs text-[#6b7280]">
+                      {DEBATE_FORMATS.find((format) => format.id === debateFormat)?.description}
+                    </p>
+                  </div>
+
+                  <label className="flex items-center gap-2 text-xs text-[#6b7280] -mt-2">
+                    <input
+                      type="checkbox"
+                      checked={debateAdaptive}
+                      onChange={(e) => setDebateAdaptive(e.target.checked)}
+                      className="accent-[#6b7280]"
+                      tabIndex={isDebateMode ? 0 : -1}
+                    />
+                    Let the moderator end a stalled debate early or ask a sharper question
+                  </label>
+
+                  <label className="flex items-center gap-2 text-xs text-[#6b7280] -mt-4">
+                    <input
+                      type="checkbox"
+                      checked={debateEvidence}
+                      onChange={(e) => setDebateEvidence(e.target.checked)}
+                      className="accent-[#6b7280]"
+                      tabIndex={isDebateMode ? 0 : -1}
+                    />
+                    Argue from the Wikipedia research, with numbered citations
+                  </label>
+
+                  <label className="flex items-center gap-2 text-xs text-[#6b7280] -mt-4">
+                    <input
+                      type="checkbox"
+                      checked={debateFactCheck}
+                      onChange={(e) => setDebateFactCheck(e.target.checked)}
+                      className="accent-[#6b7280]"
+                      tabIndex={isDebateMode ? 0 : -1}
+                    />
+                    Fact-check each turn and underline disputed claims
+                  </label>
+
+                  {/* Seed */}
+                  <div>
+                    <label className="block text-sm font-medium text-[#2d2d2d] mb-2">
+                      Seed
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={debateSeedInput}
+                      onChange={(e) => setDebateSeedInput(e.target.value)}
+                      placeholder="Random"
+                      className="w-full bg-[#fffaf2] rounded-lg px-2 py-1.5 border border-[#e5e7eb] outline-none focus:ring-2 focus:ring-[#7c6bf5]/30 focus:border-[#7c6bf5] text-xs text-[#2d2d2d] placeholder-[#9ca3af]"
+                      tabIndex={isDebateMode ? 0 : -1}
+                    />
+                    <p className="mt-2 text-xs text-[#6b7280]">
+                      {parseSeedInput(debateSeedInput) === null
+                        ? `Use a whole number from 0 to ${MAX_SEED}.`
+                        : "The same seed and settings replay the same coin toss and, on models that support it, the same replies."}
+                    </p>
+                  </div>
+
+                  {/* Human side */}
+                  <div>
+                    <label className="block text-sm font-medium text-[#2d2d2d] mb-2">
+                      Your Side
+                    </label>
+                    <select
+                      value={debateHuman}
+                      onChange={(e) => setDebateHuman(e.target.value as DebateSide | "")}
+                      className="w-full bg-[#fffaf2] rounded-lg px-2 py-1.5 border border-[#e5e7eb] outline-none focus:ring-2 focus:ring-[#7c6bf5]/30 focus:border-[#7c6bf5] text-xs text-[#2d2d2d]"
+                      tabIndex={isDebateMode ? 0 : -1}
+                    >
+                      <option value="">Watch (AI vs AI)</option>
+                      <option value="blue">Play Blue (for)</option>
+                      <option value="red">Play Red (against)</option>
+                    </select>
+                    {debateHuman && (
+                      <p className="mt-2 text-xs text-[#6b7280]">
+                        The debate pauses for your turns. You get two minutes and the same character limit as the AI.
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Debater memory */}
+                  <div>
+                    <label className="block text-sm font-medium text-[#2d2d2d] mb-2">
+                      Debater Memory
+                    </label>
+                    <select
+                      value={debateMemory}
+                      onChange={(e) => setDebateMemory(e.target.value as DebateMemory)}
+                      className="w-full bg-[#fffaf2] rounded-lg px-2 py-1.5 border border-[#e5e7eb] outline-none focus:ring-2 focus:ring-[#7c6bf5]/30 focus:border-[#7c6bf5] text-xs text-[#2d2d2d]"
+                      tabIndex={isDebateMode ? 0 : -1}
+                    >
+                      {DEBATE_MEMORY_MODES.map((mode) => (
+                        <option key={mode.id} value={mode.id}>
+                          {mode.name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-2 text-xs text-[#6b7280]">
+                      {DEBATE_MEMORY_MODES.find((mode) => mode.id === debateMemory)?.description}
+                    </p>
+                  </div>
+
+                  {/* Judge panel */}
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-[#2d2d2d]">
+                        {judgeModels.length > 1 ? `Judge Panel (${judgeModels.length})` : "Judge"}
+                      </label>
+                      {judgeModels.length > 1 && (
+                        <select
+                          value={judgeAggregation}
+                          onChange={(e) => setJudgeAggregation(e.target.value as VerdictAggregation)}
+                          className="bg-[#fffaf2] rounded-lg px-2 py-1 border border-[#e5e7eb] outline-none text-xs text-[#2d2d2d]"
+                          tabIndex={isDebateMode ? 0 : -1}
+                        >
+                          <option value="majority">Majority vote</option>
+                          <option value="average">Average score</option>
+                        </select>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      {judgeModels.map((judgeModel, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <ModelPicker
+                            models={models}
+                            value={judgeModel}
+                            onChange={(id) =>
+                              setJudgeModels((prev) => prev.map((m, i) => (i === index ? id : m)))
+                            }
+                            className="flex-1 min-w-0"
+                            tabIndex={isDebateMode ? 0 : -1}
+                          />
+                          {judgeModels.length > 1 && (
+                            <button
+                              onClick={() => setJudgeModels((prev) => prev.filter((_, i) => i !== index))}
+                              className="px-1 text-[#9ca3af] hover:text-[#ef4444]"
+                              title="Remove judge"
+                              tabIndex={isDebateMode ? 0 : -1}
+                            >
+                              ×
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    {judgeModels.length < MAX_JUDGE_PANEL && (
+                      <button
+                        onClick={() => setJudgeModels((prev) => [...prev, prev[prev.length - 1] ?? debateModel])}
+                        className="mt-2 text-xs font-medium text-[#7c6bf5] hover:underline"
+                        tabIndex={isDebateMode ? 0 : -1}
+                      >
+                        + Add a judge
+                      </button>
+                    )}
+                  </div>
+
                   {/* Debate type */}
                   <div>
                     <label className="block text-sm font-medium text-[#2d2d2d] mb-3">
@@ -1900,12 +2507,12 @@ export default function Home() {
                             ? "border-[#000000] bg-[#6b7280]/10 shadow-sm"
                             : "border-[#e5e7eb] bg-[#fffaf2] hover:border-[#d1d5db]"
                         }`}
-                        tabIndex={!isAgenticMode ? 0 : -1}
+                        tabIndex={isDebateMode ? 0 : -1}
                       >
                         <div className="text-2xl mb-2">&#9889;</div>
                         <div className="font-medium text-[#2d2d2d] text-sm">Regular</div>
                         <div className="text-xs text-[#6b7280] mt-1">
-                          2 rounds (4 exchanges) - quick and efficient
+                          2 rounds in the chosen format - quick and efficient
                         </div>
                         {debateType === "regular" && (
                           <div className="absolute top-2 right-2 w-5 h-5 bg-[#6b7280] rounded-full flex items-center justify-center">
@@ -1925,7 +2532,7 @@ export default function Home() {
                             ? "border-[#f59e0b] bg-[#fffbeb] shadow-sm"
                             : "border-[#e5e7eb] bg-[#fffaf2] hover:border-[#d1d5db]"
                         }`}
-                        tabIndex={!isAgenticMode ? 0 : -1}
+                        tabIndex={isDebateMode ? 0 : -1}
                       >
                         <div className="text-2xl mb-2">&#128260;</div>
                         <div className="font-medium text-[#2d2d2d] text-sm">Continuous</div>
@@ -1962,7 +2569,7 @@ export default function Home() {
                           value={continuousRounds}
                           onChange={(e) => setContinuousRounds(parseInt(e.target.value))}
                           className="w-full accent-[#6b7280]"
-                          tabIndex={!isAgenticMode ? 0 : -1}
+                          tabIndex={isDebateMode ? 0 : -1}
                         />
                         <div className="flex justify-between text-xs text-[#9ca3af] mt-1">
                           <span>1</span>
@@ -1978,10 +2585,14 @@ export default function Home() {
 
                   {/* Start button */}
                   <button
-                    onClick={startDebate}
-                    disabled={!debateQuestion.trim() || debateType === "continuous"}
+                    onClick={() => startDebate()}
+                    disabled={
+                      !debateQuestion.trim() ||
+                      debateType === "continuous" ||
+                      parseSeedInput(debateSeedInput) === null
+                    }
                     className="w-full py-3.5 bg-[#000000] text-white rounded-xl font-medium text-base hover:bg-[#1f2937] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg shadow-[#000000]/20"
-                    tabIndex={!isAgenticMode ? 0 : -1}
+                    tabIndex={isDebateMode ? 0 : -1}
                   >
                     <span>Start Debate</span>
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1991,6 +2602,118 @@ export default function Home() {
                 </div>
               </div>
 
+              {/* Analysis: Advocate → Critic → Judge */}
+              <div
+                ref={analysisPanelRef}
+                className={`absolute inset-x-0 top-0 transition-[opacity,transform,filter] duration-500 ease-[cubic-bezier(0.22,1,0.36,1)] will-change-[opacity,transform] ${
+                isAnalysisMode
+                  ? "opacity-100 translate-y-0 blur-0 pointer-events-auto"
+                  : "opacity-0 translate-y-1 blur-[2px] pointer-events-none"
+                }`}
+                aria-hidden={!isAnalysisMode}
+              >
+                <div className="space-y-6">
+                  <p className="text-center text-[#6b7280] text-sm">
+                    An Advocate argues for, a Critic pushes back, and a Judge delivers the verdict
+                  </p>
+                  <AgentFlow lineup={analysisLineupProfiles} />
+                  <div>
+                    <label className="block text-sm font-medium text-[#2d2d2d] mb-2">
+                      Analysis Model
+                    </label>
+                    <ModelPicker
+                      models={models}
+                      value={analysisModel}
+                      onChange={setAnalysisModel}
+                      require="reasoning"
+                      tabIndex={isAnalysisMode ? 0 : -1}
+                    />
+                  </div>
+                  <div className="bg-[#fffaf2] rounded-xl p-4 border border-[#e5e7eb]">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm text-[#4b5563]">Rebuttal rounds</span>
+                      <span className="text-sm font-bold text-[#6b7280]">{analysisRounds}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max={MAX_REBUTTAL_ROUNDS}
+                      value={analysisRounds}
+                      onChange={(e) => setAnalysisRounds(parseInt(e.target.value))}
+                      className="w-full accent-[#6b7280]"
+                      tabIndex={isAnalysisMode ? 0 : -1}
+                    />
+                    <p className="text-xs text-[#6b7280] mt-2">
+                      {analysisRounds === 0
+                        ? "Openings only, then the judges rule"
+                        : `Debaters answer each other ${analysisRounds} more time${
+                            analysisRounds > 1 ? "s" : ""
+                          } before the judges rule`}
+                    </p>
+                  </div>
+                  <div className="bg-[#fffaf2] rounded-xl p-4 border border-[#e5e7eb]">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm text-[#4b5563]">Parallel runs</span>
+                      <span className="text-sm font-bold text-[#6b7280]">{analysisRuns}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="1"
+                      max={MAX_PARALLEL_RUNS}
+                      value={analysisRuns}
+                      onChange={(e) => setAnalysisRuns(parseInt(e.target.value))}
+                      className="w-full accent-[#6b7280]"
+                      tabIndex={isAnalysisMode ? 0 : -1}
+                    />
+                    <p className="text-xs text-[#6b7280] mt-2">
+                      {analysisRuns === 1
+                        ? "One debate"
+                        : `${analysisRuns} independent debates with different sampling, reconciled into one answer with a confidence score`}
+                    </p>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-[#6b7280] -mt-2">
+                    <input
+                      type="checkbox"
+                      checked={analysisFactCheck}
+                      onChange={(e) => setAnalysisFactCheck(e.target.checked)}
+                      className="accent-[#6b7280]"
+                      tabIndex={isAnalysisMode ? 0 : -1}
+                    />
+                    Fact-check each agent and underline disputed claims
+                  </label>
+                  <div>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={analysisSeedInput}
+                      onChange={(e) => setAnalysisSeedInput(e.target.value)}
+                      placeholder="Seed (random)"
+                      className="w-full bg-[#fffaf2] rounded-lg px-2 py-1.5 border border-[#e5e7eb] outline-none focus:ring-2 focus:ring-[#7c6bf5]/30 focus:border-[#7c6bf5] text-xs text-[#2d2d2d] placeholder-[#9ca3af]"
+                      tabIndex={isAnalysisMode ? 0 : -1}
+                    />
+                    {parseSeedInput(analysisSeedInput) === null && (
+                      <p className="mt-2 text-xs text-[#b45309]">Use a whole number from 0 to {MAX_SEED}.</p>
+                    )}
+                  </div>
+                  <AgentRoster
+                    userId={user.id}
+                    models={models}
+                    lineupIds={analysisLineup}
+                    onLineupChange={setAnalysisLineup}
+                    customAgents={customAgents}
+                    onCustomAgentsChange={setCustomAgents}
+                    tabIndex={isAnalysisMode ? 0 : -1}
+                  />
+                  <div className="flex justify-center">
+                    <DebateInput
+                      onSubmit={(question) => startAnalysis(question)}
+                      initialQuestion={analysisDraft}
+                      tabIndex={isAnalysisMode ? 0 : -1}
+                    />
+                  </div>
+                </div>
+              </div>
+
               {/* Footer removed — branding is in the debate mode description */}
             </div>
           </main>
@@ -2240,6 +2963,8 @@ export default function Home() {
                                           ? "border-[#e2e8f0] bg-white"
                                           : log.role === "debater_b"
                                           ? "border-[#fee2e2] bg-[#fff5f5]"
+                                          : log.role === "judge_parse_error"
+                                          ? "border-[#f59e0b]/30 bg-[#fffbeb]"
                                           : "border-[#dcfce7] bg-[#f0fdf4]"
                                       }`}
                                     >
@@ -2251,6 +2976,8 @@ export default function Home() {
                                             ? "Debater A"
                                             : log.role === "debater_b"
                                             ? "Debater B"
+                                            : log.role === "judge_parse_error"
+                                            ? "Judge Output Error"
                                             : "Executor"}
                                         </span>
                                         <span className="text-[#94a3b8]">
@@ -1,22 +1,23 @@
 "use client";
 
-import { agents } from "@/lib/agents";
+import { agents, agentOrder } from "@/lib/agents";
+import { AgentProfile } from "@/lib/types";
 
-const agentCards = [
-  { role: "advocate" as const, icon: "👍" },
-  { role: "critic" as const, icon: "⚔️" },
-  { role: "judge" as const, icon: "⚖️" },
-];
+interface AgentFlowProps {
+  /** Agents in speaking order; the built-in Advocate, Critic and Judge when omitted */
+  lineup?: AgentProfile[];
+}
+
+const defaultLineup: AgentProfile[] = agentOrder.map((role) => agents[role]);
 
-export default function AgentFlow() {
+export default function AgentFlow({ lineup = defaultLineup }: AgentFlowProps) {
   return (
-    <div className="flex items-center justify-center gap-2 md:gap-4">
-      {agentCards.map((card, index) => {
-        const agent = agents[card.role];
+    <div className="flex flex-wrap items-center justify-center gap-2 md:gap-4">
+      {lineup.map((agent, index) => {
         const isFirst = index === 0;
 
         return (
-          <div key={card.role} className="flex items-center">
+          <div key={agent.id} className="flex items-center">
             {/* Connector line */}
             {index > 0 && (
               <div className="w-6 md:w-10 h-[2px] bg-gray-300 mr-2 md:mr-4" />
@@ -30,7 +31,7 @@ export default function AgentFlow() {
                   backgroundColor: isFirst ? "#fef2f0" : "#f3f4f6",
                 }}
               >
-                <span className="text-xl md:text-2xl">{card.icon}</span>
+                <span className="text-xl md:text-2xl">{agent.icon}</span>
               </div>
               <h3
                 className="font-semibold text-sm md:text-base"
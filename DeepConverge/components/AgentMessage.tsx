@@ -1,8 +1,10 @@
 "use client";
 
-import { agents } from "@/lib/agents";
-import { AgentRole } from "@/lib/types";
+import { Children, ReactNode } from "react";
+import { AgentProfile } from "@/lib/types";
+import type { CheckedClaim } from "@/lib/fact-check";
 import ReasoningBlock from "./ReasoningBlock";
+import FactCheckNotes, { markClaims } from "./FactCheck";
 import ReactMarkdown from "react-markdown";
 import remarkMath from "remark-math";
 import remarkGfm from "remark-gfm";
@@ -11,9 +13,13 @@ import "katex/dist/katex.min.css";
 import { preprocessLaTeX } from "@/lib/latex";
 
 interface AgentMessageProps {
-  agent: AgentRole;
+  agent: AgentProfile;
   content: string;
   reasoning?: string;
+  /** Debate round; round 1 is the opening, later rounds are rebuttals */
+  round?: number;
+  /** Fact-check results; flagged sentences are underlined */
+  claims?: CheckedClaim[];
   isStreaming?: boolean;
 }
 
@@ -21,16 +27,28 @@ export default function AgentMessage({
   agent,
   content,
   reasoning,
+  round,
+  claims,
   isStreaming,
 }: AgentMessageProps) {
-  const agentInfo = agents[agent];
-  const isAdvocate = agent === "advocate";
-  const isJudge = agent === "judge";
+  const isAdvocate = agent.id === "advocate";
+  const isCritic = agent.id === "critic";
+  const isJudge = agent.kind === "judge";
 
   // Determine current phase
   const isThinking = isStreaming && reasoning && !content;
   const isAnswering = isStreaming && content;
 
+  // Claims are matched against plain text runs; a sentence split by formatting stays unmarked
+  const underline = (children: ReactNode) =>
+    Children.map(children, (child) => (typeof child === "string" ? markClaims(child, claims) : child));
+  const markdownComponents = claims?.length
+    ? {
+        p: ({ children }: { children?: ReactNode }) => <p>{underline(children)}</p>,
+        li: ({ children }: { children?: ReactNode }) => <li>{underline(children)}</li>,
+      }
+    : undefined;
+
   return (
     <div
       className={`glass-card p-5 ${isJudge ? "border-2 border-amber-200 bg-amber-50/50" : ""}`}
@@ -40,19 +58,33 @@ export default function AgentMessage({
         <div
           className="w-10 h-10 rounded-xl flex items-center justify-center"
           style={{
-            backgroundColor: isAdvocate ? "#fef2f0" : isJudge ? "#fef9c3" : "#f3f4f6",
+            // User-defined agents get a tint of their own colour
+            backgroundColor: isAdvocate
+              ? "#fef2f0"
+              : isJudge
+              ? "#fef9c3"
+              : isCritic
+              ? "#f3f4f6"
+              : `${agent.color}1a`,
           }}
         >
-          <span className="text-xl">{agentInfo.icon}</span>
+          <span className="text-xl">{agent.icon}</span>
         </div>
         <div>
           <h3
             className="font-semibold"
-            style={{ color: isAdvocate ? agentInfo.color : isJudge ? "#b45309" : "#374151" }}
+            style={{ color: isJudge ? "#b45309" : isCritic ? "#374151" : agent.color }}
           >
-            {agentInfo.name}
+            {agent.name}
           </h3>
-          <p className="text-xs text-muted">{agentInfo.description}</p>
+          <p className="text-xs text-muted">
+            {agent.description}
+            {round !== undefined && !isJudge && (
+              <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-100 text-gray-500">
+                Round {round} · {round === 1 ? "Opening" : "Rebuttal"}
+              </span>
+            )}
+          </p>
         </div>
         {/* Phase indicator */}
         {isStreaming && (
@@ -80,7 +112,7 @@ export default function AgentMessage({
       </div>
 
       {/* Reasoning block - shows FIRST while thinking */}
-      {reasoning && <ReasoningBlock reasoning={reasoning} agentName={agentInfo.name} />}
+      {reasoning && <ReasoningBlock reasoning={reasoning} agentName={agent.name} />}
 
       {/* Answer section */}
       {(content || !isStreaming) && (
@@ -96,10 +128,15 @@ export default function AgentMessage({
 
           {/* Content */}
           <div className="prose prose-sm max-w-none prose-table:border-collapse prose-th:border prose-th:border-gray-300 prose-th:bg-gray-50 prose-th:px-3 prose-th:py-2 prose-td:border prose-td:border-gray-300 prose-td:px-3 prose-td:py-2">
-            <ReactMarkdown remarkPlugins={[remarkMath, remarkGfm]} rehypePlugins={[rehypeKatex]}>
+            <ReactMarkdown
+              remarkPlugins={[remarkMath, remarkGfm]}
+              rehypePlugins={[rehypeKatex]}
+              components={markdownComponents}
+            >
               {preprocessLaTeX(content || "")}
             </ReactMarkdown>
           </div>
+          {claims && !isStreaming && <FactCheckNotes claims={claims} />}
         </>
       )}
 
@@ -0,0 +1,361 @@
+"use client";
+
+import { useState } from "react";
+import { agents, agentOrder, MAX_LINEUP_SIZE } from "@/lib/agents";
+import type { AgentKind, AgentProfile } from "@/lib/types";
+import type { ModelInfo } from "@/lib/models";
+import { createClient } from "@/lib/supabase/client";
+import {
+  customAgentProfile,
+  deleteCustomAgent,
+  saveCustomAgent,
+  type CustomAgent,
+  type CustomAgentInput,
+} from "@/lib/supabase/agents";
+import ModelPicker from "./ModelPicker";
+
+interface AgentRosterProps {
+  userId: string;
+  models: ModelInfo[];
+  /** Built-in role ids and saved agent ids, in speaking order */
+  lineupIds: string[];
+  onLineupChange: (ids: string[]) => void;
+  customAgents: CustomAgent[];
+  onCustomAgentsChange: (agents: CustomAgent[]) => void;
+  tabIndex?: number;
+}
+
+const EMPTY_DRAFT: CustomAgentInput = {
+  name: "",
+  description: "",
+  color: "#7c6bf5",
+  icon: "💬",
+  kind: "debater",
+  system_prompt: "",
+  model: null,
+  position: 1,
+};
+
+export default function AgentRoster({
+  userId,
+  models,
+  lineupIds,
+  onLineupChange,
+  customAgents,
+  onCustomAgentsChange,
+  tabIndex,
+}: AgentRosterProps) {
+  const [draft, setDraft] = useState<CustomAgentInput | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profileFor = (id: string): AgentProfile | null => {
+    if (Object.hasOwn(agents, id)) return agents[id as keyof typeof agents];
+    const custom = customAgents.find((agent) => agent.id === id);
+    return custom ? customAgentProfile(custom) : null;
+  };
+
+  const available = [
+    ...agentOrder.map((role) => ({ id: role, position: agentOrder.indexOf(role) })),
+    ...customAgents.map((agent) => ({ id: agent.id, position: agent.position })),
+  ].filter((entry) => !lineupIds.includes(entry.id));
+
+  const addToLineup = (id: string) => {
+    const entry = available.find((candidate) => candidate.id === id);
+    if (!entry || lineupIds.length >= MAX_LINEUP_SIZE) return;
+    const next = [...lineupIds];
+    next.splice(Math.min(Math.max(entry.position, 0), next.length), 0, id);
+    onLineupChange(next);
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= lineupIds.length) return;
+    const next = [...lineupIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    onLineupChange(next);
+  };
+
+  const startEditing = (agent?: CustomAgent) => {
+    setError(null);
+    setEditingId(agent?.id ?? null);
+    setDraft(
+      agent
+        ? {
+            name: agent.name,
+            description: agent.description,
+            color: agent.color,
+            icon: agent.icon,
+            kind: agent.kind,
+            system_prompt: agent.system_prompt,
+            model: agent.model,
+            position: agent.position,
+          }
+        : { ...EMPTY_DRAFT, position: lineupIds.length }
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.system_prompt.trim()) {
+      setError("Give the agent a name and a system prompt.");
+      return;
+    }
+    setIsSaving(true);
+    const supabase = createClient();
+    const saved = await saveCustomAgent(
+      supabase,
+      userId,
+      { ...draft, name: draft.name.trim(), system_prompt: draft.system_prompt.trim() },
+      editingId ?? undefined
+    );
+    setIsSaving(false);
+    if (!saved) {
+      setError("Could not save the agent. Please try again.");
+      return;
+    }
+
+    onCustomAgentsChange(
+      editingId
+        ? customAgents.map((agent) => (agent.id === saved.id ? saved : agent))
+        : [...customAgents, saved]
+    );
+    if (!editingId && lineupIds.length < MAX_LINEUP_SIZE) {
+      const next = [...lineupIds];
+      next.splice(Math.min(Math.max(saved.position, 0), next.length), 0, saved.id);
+      onLineupChange(next);
+    }
+    setDraft(null);
+    setEditingId(null);
+  };
+
+  const handleDelete = async (agentId: string) => {
+    const supabase = createClient();
+    if (!(await deleteCustomAgent(supabase, agentId))) return;
+    onCustomAgentsChange(customAgents.filter((agent) => agent.id !== agentId));
+    onLineupChange(lineupIds.filter((id) => id !== agentId));
+  };
+
+  const inputClass =
+    "w-full bg-white rounded-lg px-2 py-1.5 border border-[#e5e7eb] outline-none focus:ring-2 focus:ring-[#7c6bf5]/30 focus:border-[#7c6bf5] text-xs text-[#2d2d2d]";
+
+  return (
+    <div className="bg-[#fffaf2] rounded-xl p-4 border border-[#e5e7eb] space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-[#4b5563]">Agent lineup</span>
+        <span className="text-xs text-[#9ca3af]">
+          {lineupIds.length}/{MAX_LINEUP_SIZE}
+        </span>
+      </div>
+
+      {/* Current lineup, in speaking order */}
+      <div className="space-y-1">
+        {lineupIds.map((id, index) => {
+          const profile = profileFor(id);
+          if (!profile) return null;
+          const custom = customAgents.find((agent) => agent.id === id);
+          return (
+            <div key={id} className="flex items-center gap-2 rounded-lg bg-white border border-[#f0f0f0] px-2 py-1.5">
+              <span className="text-base">{profile.icon}</span>
+              <span className="text-xs font-medium truncate" style={{ color: profile.color }}>
+                {profile.name}
+              </span>
+              <span className="text-[10px] uppercase tracking-wider text-[#9ca3af]">
+                {profile.kind}
+              </span>
+              <span className="ml-auto flex items-center gap-1 text-[#9ca3af]">
+                {custom && (
+                  <button
+                    onClick={() => startEditing(custom)}
+                    className="px-1 hover:text-[#4b5563]"
+                    title="Edit"
+                    tabIndex={tabIndex}
+                  >
+                    ✎
+                  </button>
+                )}
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="px-1 hover:text-[#4b5563] disabled:opacity-30"
+                  title="Speak earlier"
+                  tabIndex={tabIndex}
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === lineupIds.length - 1}
+                  className="px-1 hover:text-[#4b5563] disabled:opacity-30"
+                  title="Speak later"
+                  tabIndex={tabIndex}
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => onLineupChange(lineupIds.filter((other) => other !== id))}
+                  className="px-1 hover:text-[#ef4444]"
+                  title="Remove from lineup"
+                  tabIndex={tabIndex}
+                >
+                  ×
+                </button>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Bench: built-ins and saved agents not in the lineup */}
+      {available.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {available.map((entry) => {
+            const profile = profileFor(entry.id);
+            if (!profile) return null;
+            const isCustom = !Object.hasOwn(agents, entry.id);
+            return (
+              <span
+                key={entry.id}
+                className="group flex items-center gap-1 rounded-full border border-[#e5e7eb] bg-white pl-2 pr-1 py-0.5 text-[11px] text-[#4b5563]"
+              >
+                <button
+                  onClick={() => addToLineup(entry.id)}
+                  disabled={lineupIds.length >= MAX_LINEUP_SIZE}
+                  className="disabled:opacity-40"
+                  tabIndex={tabIndex}
+                >
+                  + {profile.icon} {profile.name}
+                </button>
+                {isCustom && (
+                  <button
+                    onClick={() => handleDelete(entry.id)}
+                    className="px-1 text-[#9ca3af] hover:text-[#ef4444]"
+                    title="Delete saved agent"
+                    tabIndex={tabIndex}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {draft ? (
+        <div className="space-y-2 border-t border-[#ebebeb] pt-3">
+          <div className="flex gap-2">
+            <input
+              value={draft.icon}
+              onChange={(e) => setDraft({ ...draft, icon: e.target.value.slice(0, 8) })}
+              className={`${inputClass} w-12 text-center`}
+              aria-label="Icon"
+              tabIndex={tabIndex}
+            />
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value.slice(0, 40) })}
+              placeholder="Name, e.g. Risk Officer"
+              className={inputClass}
+              tabIndex={tabIndex}
+            />
+            <input
+              type="color"
+              value={draft.color}
+              onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+              className="h-8 w-10 shrink-0 rounded border border-[#e5e7eb] bg-white"
+              aria-label="Colour"
+              tabIndex={tabIndex}
+            />
+          </div>
+          <input
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value.slice(0, 120) })}
+            placeholder="One-line description"
+            className={inputClass}
+            tabIndex={tabIndex}
+          />
+          <div className="flex gap-2">
+            <select
+              value={draft.kind}
+              onChange={(e) => setDraft({ ...draft, kind: e.target.value as AgentKind })}
+              className={inputClass}
+              tabIndex={tabIndex}
+            >
+              <option value="debater">Debater (speaks every round)</option>
+              <option value="judge">Judge (rules at the end)</option>
+            </select>
+            <label className="flex items-center gap-1 text-[11px] text-[#6b7280] whitespace-nowrap">
+              Slot
+              <input
+                type="number"
+                min={0}
+                max={MAX_LINEUP_SIZE - 1}
+                value={draft.position}
+                onChange={(e) => setDraft({ ...draft, position: Number(e.target.value) || 0 })}
+                className={`${inputClass} w-14`}
+                tabIndex={tabIndex}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-1 text-[11px] text-[#6b7280]">
+            <input
+              type="checkbox"
+              checked={draft.model !== null}
+              onChange={(e) => setDraft({ ...draft, model: e.target.checked ? models[0]?.id ?? null : null })}
+              className="accent-[#6b7280]"
+              tabIndex={tabIndex}
+            />
+            Use its own model instead of the analysis model
+          </label>
+          {draft.model !== null && (
+            <ModelPicker
+              models={models}
+              value={draft.model}
+              onChange={(model) => setDraft({ ...draft, model })}
+              tabIndex={tabIndex}
+            />
+          )}
+          <textarea
+            value={draft.system_prompt}
+            onChange={(e) => setDraft({ ...draft, system_prompt: e.target.value.slice(0, 4000) })}
+            placeholder="System prompt: who this agent is and how it should argue"
+            rows={4}
+            className={`${inputClass} resize-none`}
+            tabIndex={tabIndex}
+          />
+          {error && <p className="text-xs text-[#b45309]">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setDraft(null);
+                setEditingId(null);
+              }}
+              className="px-3 py-1 rounded-lg text-xs text-[#6b7280] hover:bg-[#f3f4f6]"
+              tabIndex={tabIndex}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-3 py-1 rounded-lg text-xs text-white bg-[#2d2d2d] hover:bg-[#1f2937] disabled:opacity-50"
+              tabIndex={tabIndex}
+            >
+              {isSaving ? "Saving..." : editingId ? "Save changes" : "Save agent"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => startEditing()}
+          className="text-xs font-medium text-[#7c6bf5] hover:underline"
+          tabIndex={tabIndex}
+        >
+          + Create a custom agent
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,406 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { agents, agentOrder, aggregatorProfile } from "@/lib/agents";
+import { AgentProfile, LineupEntry, Message } from "@/lib/types";
+import type { TokenUsage } from "@/lib/llm/types";
+import type { CheckedClaim } from "@/lib/fact-check";
+import { formatUsage } from "@/lib/llm/usage";
+import { readResumableEvents, RESUME_HEADERS } from "@/lib/resumable-events";
+import AgentFlow from "./AgentFlow";
+import DebateStream from "./DebateStream";
+import AgentMessage from "./AgentMessage";
+import RunLanes from "./RunLanes";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface AnalysisTurn {
+  agent: AgentProfile;
+  content: string;
+  reasoning?: string;
+  round?: number;
+  /** Parallel run index in self-consistency mode */
+  run?: number;
+  usage?: TokenUsage;
+  model?: string;
+  claims?: CheckedClaim[];
+  /** Aggregator only: 0-100 agreement across runs, null when unscored */
+  agreement?: number | null;
+  consensus?: string[];
+  divergences?: string[];
+}
+
+interface AnalysisCanvasProps {
+  question: string;
+  apiKey: string;
+  /** OpenRouter model id for all three agents; the server default when omitted */
+  model?: string;
+  /** Rebuttal rounds after the openings; the server default when omitted */
+  rounds?: number;
+  /** Speaking order; the built-in Advocate, Critic and Judge when omitted */
+  lineup?: LineupEntry[];
+  /** Independent debates to run side by side and reconcile; 1 when omitted */
+  runs?: number;
+  /** Check each agent's factual claims after it speaks */
+  factCheck?: boolean;
+  /** Fixes model sampling so the analysis can be reproduced; parallel runs offset it */
+  seed?: number;
+  /** Runs the analysis again with the same seed; `vary` returns to setup to change one setting first */
+  onRerun?: (vary: boolean) => void;
+  onAnalysisFinished?: (turns: AnalysisTurn[]) => void;
+  replayMessages?: AnalysisTurn[];
+}
+
+type Phase = "running" | "complete" | "failed";
+
+const toMessage = (turn: AnalysisTurn, id: string): Message => ({
+  id,
+  agent: turn.agent,
+  content: turn.content,
+  reasoning: turn.reasoning || undefined,
+  round: turn.round,
+  run: turn.run,
+  claims: turn.claims,
+  timestamp: new Date(),
+});
+
+const confidenceLabel = (agreement: number) =>
+  agreement >= 75 ? "High" : agreement >= 50 ? "Medium" : "Low";
+
+// ── Component ────────────────────────────────────────────────────────
+
+export default function AnalysisCanvas({
+  question,
+  apiKey,
+  model,
+  rounds,
+  lineup,
+  runs = 1,
+  factCheck,
+  seed,
+  onRerun,
+  onAnalysisFinished,
+  replayMessages,
+}: AnalysisCanvasProps) {
+  const [phase, setPhase] = useState<Phase>("running");
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [currentAgent, setCurrentAgent] = useState<AgentProfile | undefined>();
+  const [currentRound, setCurrentRound] = useState<number | undefined>();
+  const [status, setStatus] = useState<string | null>(null);
+  const [totalUsage, setTotalUsage] = useState<TokenUsage | null>(null);
+  const [runFailures, setRunFailures] = useState<Record<number, string>>({});
+  const [aggregate, setAggregate] = useState<AnalysisTurn | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const stoppedRef = useRef(false);
+  // The stream outlives the render that started it; always report to the latest callback
+  const onFinishedRef = useRef(onAnalysisFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onAnalysisFinished;
+  }, [onAnalysisFinished]);
+
+  useEffect(() => {
+    if (replayMessages && replayMessages.length > 0) {
+      // Replay mode: render the saved turns without calling the API
+      const saved = replayMessages.filter((turn) => turn.agent.id !== aggregatorProfile.id);
+      setMessages(saved.map((turn, i) => toMessage(turn, `replay-${i}`)));
+      setAggregate(replayMessages.find((turn) => turn.agent.id === aggregatorProfile.id) ?? null);
+      setPhase("complete");
+      return;
+    }
+    runAnalysis();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = null;
+    };
+  }, []);
+
+  const updateMessage = (agentId: string, run: number | undefined, patch: Partial<Message>) => {
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.agent.id === agentId && m.run === run && m.isStreaming ? { ...m, ...patch } : m
+      )
+    );
+  };
+
+  const runAnalysis = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const turns: AnalysisTurn[] = [];
+    // Filled from `start` events so custom agents render with their own name and colour
+    const profiles = new Map<string, AgentProfile>(
+      agentOrder.map((role) => [role, agents[role]])
+    );
+
+    try {
+      const response = await fetch("/api/debate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...RESUME_HEADERS },
+        body: JSON.stringify({ question, apiKey, model, rounds, lineup, runs, factCheck, seed }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        let errorText = `API error: ${response.status}`;
+        try {
+          const payload = await response.json();
+          if (payload && typeof payload.error === "string") errorText = payload.error;
+        } catch {
+          // Keep the status-based message
+        }
+        setStatus(errorText);
+        setPhase("failed");
+        return;
+      }
+
+      // Reconnects on its own if the connection drops; Stop still ends it on the server
+      const events = readResumableEvents(response, {
+        signal: controller.signal,
+        onReconnect: (attempt) => setStatus(`Connection lost, reconnecting (attempt ${attempt})...`),
+      });
+
+      for await (const event of events) {
+        let data;
+        try {
+          data = JSON.parse(event.data);
+        } catch {
+          continue;
+        }
+        const agentId = String(data.agent ?? "");
+        const run: number | undefined = typeof data.run === "number" ? data.run : undefined;
+        if (data.type === "start" && data.profile) profiles.set(agentId, data.profile);
+        const agent = profiles.get(agentId);
+
+        if (data.type === "run-error" && run !== undefined) {
+          setRunFailures((prev) => ({ ...prev, [run]: String(data.message ?? "Run failed.") }));
+          continue;
+        }
+        if (data.type === "aggregate-start") {
+          setStatus(`Reconciling ${data.runs} runs...`);
+          continue;
+        }
+        if (data.type === "aggregate") {
+          const turn: AnalysisTurn = {
+            agent: aggregatorProfile,
+            content: data.content || "",
+            agreement: typeof data.agreement === "number" ? data.agreement : null,
+            consensus: Array.isArray(data.consensus) ? data.consensus : [],
+            divergences: Array.isArray(data.divergences) ? data.divergences : [],
+          };
+          setAggregate(turn);
+          setStatus(null);
+          turns.push(turn);
+          continue;
+        }
+        if (!agent && data.type !== "complete" && data.type !== "error" && data.type !== "usage") continue;
+
+        if (data.type === "start" && agent) {
+          setCurrentAgent(agent);
+          setCurrentRound(data.round);
+          setStatus(null);
+          setMessages((prev) => [
+            ...prev,
+            {
+              id: `${agentId}-${run ?? 0}-${data.round ?? 1}-${Date.now()}`,
+              agent,
+              content: "",
+              round: data.round,
+              run,
+              timestamp: new Date(),
+              isStreaming: true,
+            },
+          ]);
+        } else if (data.type === "reasoning") {
+          updateMessage(agentId, run, { reasoning: data.content });
+        } else if (data.type === "content") {
+          updateMessage(agentId, run, { content: data.content });
+        } else if (data.type === "model-switched" && agent) {
+          setStatus(
+            `${agent.name}${run !== undefined ? ` (run ${run + 1})` : ""} switched to ${data.to} (${data.from} unavailable)`
+          );
+        } else if (data.type === "usage") {
+          setTotalUsage(data.total);
+        } else if (data.type === "done" && agent) {
+          updateMessage(agentId, run, {
+            content: data.content || "",
+            reasoning: data.reasoning || undefined,
+            isStreaming: false,
+          });
+          turns.push({
+            agent,
+            content: data.content || "",
+            reasoning: data.reasoning || undefined,
+            round: data.round,
+            run,
+            usage: data.usage,
+            model: data.model,
+          });
+        } else if (data.type === "factcheck" && Array.isArray(data.claims) && data.claims.length > 0) {
+          // Arrives after `done`, so it goes on the agent's finished turn
+          const claims: CheckedClaim[] = data.claims;
+          const turn = turns.findLast(
+            (t) => t.agent.id === agentId && t.run === run && t.round === data.round
+          );
+          if (turn) turn.claims = claims;
+          setMessages((prev) => {
+            const index = prev.findLastIndex(
+              (m) => m.agent.id === agentId && m.run === run && m.round === data.round
+            );
+            return index === -1
+              ? prev
+              : prev.map((m, i) => (i === index ? { ...m, claims } : m));
+          });
+        } else if (data.type === "complete") {
+          if (data.usage) setTotalUsage(data.usage);
+        } else if (data.type === "error") {
+          setStatus(
+            typeof data.message === "string"
+              ? data.message.replace(/^USAGE_LIMIT:\s*/, "")
+              : "Analysis failed."
+          );
+          setPhase("failed");
+        }
+      }
+    } catch (error) {
+      const isAbortError =
+        (error instanceof DOMException && error.name === "AbortError") ||
+        (error instanceof Error && error.name === "AbortError");
+      if (isAbortError && !stoppedRef.current) return;
+      if (!isAbortError) {
+        console.error("Analysis error:", error);
+        setStatus(error instanceof Error ? error.message : "Analysis failed.");
+      }
+      setPhase("failed");
+    } finally {
+      abortControllerRef.current = null;
+      setCurrentAgent(undefined);
+      setMessages((prev) => prev.map((m) => (m.isStreaming ? { ...m, isStreaming: false } : m)));
+    }
+
+    if (stoppedRef.current) return;
+    setPhase((prev) => (prev === "failed" ? prev : "complete"));
+    if (turns.length > 0) onFinishedRef.current?.(turns);
+  };
+
+  const stopAnalysis = () => {
+    if (phase !== "running" || stoppedRef.current) return;
+    stoppedRef.current = true;
+    setStatus("Analysis stopped. No further generation will run.");
+    abortControllerRef.current?.abort();
+  };
+
+  // Replays have no `runs` prop, so lanes follow the saved turns
+  const laneCount = Math.max(runs, ...messages.map((m) => (m.run ?? -1) + 1));
+  const isLanes = laneCount > 1;
+
+  // Everyone who has spoken so far, in first-appearance order
+  const speakers = messages
+    .map((m) => m.agent)
+    .filter((agent, index, all) => all.findIndex((other) => other.id === agent.id) === index);
+
+  return (
+    <div className="w-full flex flex-col items-center gap-6 px-4 py-8">
+      <AgentFlow lineup={speakers.length > 0 ? speakers : undefined} />
+
+      <div className="w-full max-w-2xl glass-card px-5 py-4">
+        <p className="text-[10px] font-semibold uppercase tracking-widest text-muted mb-1">
+          Question
+        </p>
+        <p className="text-charcoal">{question}</p>
+      </div>
+
+      {isLanes ? (
+        <RunLanes runCount={laneCount} messages={messages} failures={runFailures} />
+      ) : (
+        <DebateStream messages={messages} currentAgent={currentAgent?.id} />
+      )}
+
+      {aggregate && (
+        <div className="w-full max-w-2xl space-y-3">
+          <AgentMessage agent={aggregate.agent} content={aggregate.content} />
+          <div className="glass-card px-5 py-4 text-xs text-charcoal space-y-2">
+            <p className="font-semibold">
+              {aggregate.agreement === null || aggregate.agreement === undefined
+                ? "Agreement across runs could not be scored"
+                : `${confidenceLabel(aggregate.agreement)} confidence · runs ${aggregate.agreement}% in agreement`}
+            </p>
+            {aggregate.consensus && aggregate.consensus.length > 0 && (
+              <div>
+                <p className="text-[10px] font-semibold uppercase tracking-widest text-muted mb-1">
+                  Runs agree
+                </p>
+                <ul className="list-disc pl-4 space-y-0.5">
+                  {aggregate.consensus.map((point, i) => (
+                    <li key={i}>{point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {aggregate.divergences && aggregate.divergences.length > 0 && (
+              <div>
+                <p className="text-[10px] font-semibold uppercase tracking-widest text-muted mb-1">
+                  Runs diverged
+                </p>
+                <ul className="list-disc pl-4 space-y-0.5">
+                  {aggregate.divergences.map((point, i) => (
+                    <li key={i}>{point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="w-full max-w-2xl flex items-center justify-between gap-3 text-xs text-muted">
+        <span>
+          {status ||
+            (phase === "running"
+              ? currentAgent
+                ? isLanes
+                  ? `Running ${laneCount} debates in parallel...`
+                  : `${currentAgent.name} is responding${
+                      currentRound && currentAgent.kind !== "judge" ? ` (round ${currentRound})` : ""
+                    }...`
+                : "Starting analysis..."
+              : phase === "complete"
+              ? "Analysis complete."
+              : "")}
+        </span>
+        <span className="flex items-center gap-3">
+          {totalUsage && <span>{formatUsage(totalUsage)}</span>}
+          {phase === "complete" && seed !== undefined && <span>Seed {seed}</span>}
+          {phase === "complete" && seed !== undefined && onRerun && (
+            <>
+              <button
+                onClick={() => onRerun(false)}
+                className="px-3 py-1 rounded-full border border-gray-300 hover:bg-gray-100 transition-colors"
+              >
+                Re-run
+              </button>
+              <button
+                onClick={() => onRerun(true)}
+                className="px-3 py-1 rounded-full border border-gray-300 hover:bg-gray-100 transition-colors"
+              >
+                Vary
+              </button>
+            </>
+          )}
+          {phase === "running" && (
+            <button
+              onClick={stopAnalysis}
+              className="px-3 py-1 rounded-full border border-gray-300 hover:bg-gray-100 transition-colors"
+            >
+              Stop
+            </button>
+          )}
+        </span>
+      </div>
+    </div>
+  );
+}
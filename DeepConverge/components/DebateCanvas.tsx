@@ -2,6 +2,25 @@
 
 import { useState, useRef, useEffect } from "react";
 import Image from "next/image";
+import type { TokenUsage } from "@/lib/llm/types";
+import {
+  DebateMemory,
+  DebateSide,
+  DEFAULT_DEBATE_FORMAT,
+  findDebateFormat,
+  scheduleTurns,
+} from "@/lib/debate-formats";
+import {
+  scorecardTotal,
+  VERDICT_CRITERIA,
+  type VerdictAggregation,
+  type VerdictPanel,
+  type VerdictScorecard,
+} from "@/lib/debate-scoring";
+import type { CheckedClaim } from "@/lib/fact-check";
+import type { Citation } from "@/lib/wikipedia";
+import { readResumableEvents, RESUME_HEADERS } from "@/lib/resumable-events";
+import FactCheckNotes, { markClaims } from "./FactCheck";
 
 // ── Types ────────────────────────────────────────────────────────────
 
@@ -12,15 +31,89 @@ interface DebateMessage {
   displayedContent: string;
   isVerdict?: boolean;
   round?: number;
+  /** Phase label from the debate format, e.g. "Cross-examination" */
+  phase?: string;
+  usage?: TokenUsage;
+  /** Rubric scores, on the verdict only */
+  scorecard?: VerdictScorecard;
+  /** Individual ballots when a judge panel scored the debate */
+  panel?: VerdictPanel;
+  /** A sub-question the moderator put to both sides mid-debate */
+  isFollowUp?: boolean;
+  /** Why the moderator ended the debate early, on the verdict only */
+  earlyStop?: EarlyStop;
+  /** Written by the user in a human-vs-AI debate */
+  isHuman?: boolean;
+  /** Research entries behind the [n] markers in `content` */
+  citations?: Citation[];
+  /** The fact-checker's verdict on each claim of the turn */
+  claims?: CheckedClaim[];
+  /** The reply wasn't structured, so the speech was pulled out of the raw text */
+  fallback?: boolean;
+}
+
+/** Sent as `early-stop` when the moderator cuts the debate short */
+export interface EarlyStop {
+  round: number;
+  signal: string;
+  reason: string;
+}
+
+/** What gets saved per message and handed back for replay */
+export interface DebateRecord {
+  speaker: string;
+  content: string;
+  round?: number;
+  phase?: string;
+  usage?: TokenUsage;
+  scorecard?: VerdictScorecard;
+  panel?: VerdictPanel;
+  isFollowUp?: boolean;
+  earlyStop?: EarlyStop;
+  isHuman?: boolean;
+  citations?: Citation[];
+  claims?: CheckedClaim[];
+  fallback?: boolean;
+}
+
+/** Sent as `await-human` when the debate pauses for the user's turn */
+interface HumanTurn {
+  speaker: DebateSide;
+  round?: number;
+  phase?: string;
+  maxChars: number;
+  /** Opaque debate state, posted back to resume */
+  state: unknown;
 }
 
 interface DebateCanvasProps {
   question: string;
   rounds: number;
   apiKey: string;
+  /** OpenRouter model id for debaters and moderator; the server default when omitted */
+  model?: string;
+  /** Debate format id from lib/debate-formats; the classic format when omitted */
+  format?: string;
+  /** Judge panel models; one judge on the debate model when omitted */
+  judges?: string[];
+  aggregation?: VerdictAggregation;
+  /** Let the moderator end a stalled debate early or redirect it; on by default */
+  adaptive?: boolean;
+  /** What debaters see of earlier turns; last message only when omitted */
+  memory?: DebateMemory;
+  /** The side the user plays; both sides are AI when omitted */
+  human?: DebateSide;
+  /** Give each side its research as a dossier it can cite */
+  evidence?: boolean;
+  /** Check each Blue/Red turn's factual claims */
+  factCheck?: boolean;
+  /** Fixes the coin toss and model sampling so the debate can be reproduced */
+  seed?: number;
+  /** Runs the debate again with the same seed; `vary` returns to setup to change one setting first */
+  onRerun?: (vary: boolean) => void;
   onComplete?: () => void;
-  onDebateFinished?: (messages: { speaker: string; content: string }[]) => void;
-  replayMessages?: { speaker: string; content: string }[];
+  onDebateFinished?: (messages: DebateRecord[]) => void;
+  replayMessages?: DebateRecord[];
 }
 
 type Phase = "loading" | "presenting" | "complete";
@@ -31,42 +124,7 @@ const CHARS_PER_FRAME = 1;
 const FRAME_DELAY = 45; // ms between frames (~22 chars/sec, deliberate pacing)
 const TURN_DELAY = 3000; // ms pause between blue/red turns
 const MOD_TO_AGENT_DELAY = 3000; // ms pause after moderator
-
-// ── SSE Parser ───────────────────────────────────────────────────────
-
-const parseSseEvents = (buffer: string) => {
-  const normalized = buffer.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
-  const events: { data: string; event?: string }[] = [];
-  let remaining = normalized;
-
-  let idx = remaining.indexOf("\n\n");
-  while (idx !== -1) {
-    const rawEvent = remaining.slice(0, idx);
-    remaining = remaining.slice(idx + 2);
-
-    if (rawEvent.trim()) {
-      const lines = rawEvent.split("\n");
-      const dataLines: string[] = [];
-      let eventType: string | undefined;
-
-      for (const line of lines) {
-        if (!line || line.startsWith(":")) continue;
-        const [field, ...rest] = line.split(":");
-        const value = rest.join(":").trimStart();
-        if (field === "data") dataLines.push(value);
-        if (field === "event") eventType = value;
-      }
-
-      if (dataLines.length > 0) {
-        events.push({ data: dataLines.join("\n"), event: eventType });
-      }
-    }
-
-    idx = remaining.indexOf("\n\n");
-  }
-
-  return { events, remaining };
-};
+const HUMAN_TURN_SECONDS = 120; // time the user gets for a turn before it is submitted as-is
 
 // ── Component ────────────────────────────────────────────────────────
 
@@ -74,6 +132,17 @@ export default function DebateCanvas({
   question,
   rounds,
   apiKey,
+  model,
+  format,
+  judges,
+  aggregation,
+  adaptive,
+  memory,
+  human,
+  evidence,
+  factCheck,
+  seed,
+  onRerun,
   onComplete,
   onDebateFinished,
   replayMessages,
@@ -91,6 +160,11 @@ export default function DebateCanvas({
     blue: string[];
     red: string[];
   }>({ blue: [], red: [] });
+  const [humanTurn, setHumanTurn] = useState<HumanTurn | null>(null);
+  const [inputOpen, setInputOpen] = useState(false);
+  const [humanDraft, setHumanDraft] = useState("");
+  const [secondsLeft, setSecondsLeft] = useState(HUMAN_TURN_SECONDS);
+  const [resuming, setResuming] = useState(false);
 
   // ── Refs ──
   const preloadedRef = useRef<DebateMessage[]>([]);
@@ -119,7 +193,16 @@ export default function DebateCanvas({
         content: m.content,
         displayedContent: m.content, // fully displayed immediately
         isVerdict: i === replayMessages.length - 1 && m.speaker === "moderator",
-        round: undefined,
+        round: m.round,
+        phase: m.phase,
+        scorecard: m.scorecard,
+        panel: m.panel,
+        isFollowUp: m.isFollowUp,
+        earlyStop: m.earlyStop,
+        isHuman: m.isHuman,
+        citations: m.citations,
+        claims: m.claims,
+        fallback: m.fallback,
       }));
       setMessages(replayed);
       setPhase("complete");
@@ -129,23 +212,48 @@ export default function DebateCanvas({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const preloadDebate = async () => {
-    setPhase("loading");
+  /** Runs the debate until it ends or pauses for the user; `resume` continues a paused one */
+  const preloadDebate = async (resume?: { state: unknown; argument: string }) => {
+    if (resume) {
+      setResuming(true);
+      setLoadingLabel("Submitting your argument...");
+    } else {
+      setPhase("loading");
+    }
     setIsGenerationStopped(false);
     setStopMessage(null);
     stoppedRef.current = false;
     const controller = new AbortController();
     abortControllerRef.current = controller;
     const collected: DebateMessage[] = [];
-    // 2 research-done + moderator + rounds*2 + verdict
-    const totalSteps = 4 + rounds * 2;
+    let earlyStop: EarlyStop | undefined;
+    let pausedAt: HumanTurn | null = null;
+    // 2 research-done + moderator + the format's turns + verdict
+    const debateFormat = findDebateFormat(format || DEFAULT_DEBATE_FORMAT);
+    const totalSteps =
+      4 + (debateFormat ? scheduleTurns(debateFormat, rounds).length : rounds * 2);
     let step = 0;
 
     try {
       const response = await fetch("/api/debate-mode", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question, rounds, apiKey }),
+        headers: { "Content-Type": "application/json", ...RESUME_HEADERS },
+        body: JSON.stringify({
+          question,
+          rounds,
+          apiKey,
+          model,
+          format,
+          judges,
+          aggregation,
+          adaptive,
+          memory,
+          human,
+          evidence,
+          factCheck,
+          seed,
+          ...(resume ? { resume } : {}),
+        }),
         signal: controller.signal,
       });
 
@@ -180,85 +288,130 @@ export default function DebateCanvas({
         return;
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("No response body");
-
-      const decoder = new TextDecoder();
-      let buffer = "";
+      // Reconnects on its own if the connection drops mid-debate
+      const events = readResumableEvents(response, {
+        signal: controller.signal,
+        onReconnect: (attempt) =>
+          setLoadingLabel(`Connection lost, reconnecting (attempt ${attempt})...`),
+      });
 
-      while (true) {
+      for await (const event of events) {
         if (stoppedRef.current) break;
-        const { done, value } = await reader.read();
-        if (done) break;
+        const raw = event.data.trim();
+        if (!raw) continue;
 
-        buffer += decoder.decode(value, { stream: true });
-        const parsed = parseSseEvents(buffer);
-        buffer = parsed.remaining;
+        try {
+          const data = JSON.parse(raw);
 
-        for (const event of parsed.events) {
-          const raw = event.data.trim();
-          if (!raw) continue;
+          if (data.type === "research-start") {
+            setLoadingLabel("Researching topic...");
+            continue;
+          }
 
-          try {
-            const data = JSON.parse(raw);
+          if (data.type === "research-done") {
+            const speaker = data.speaker as "blue" | "red";
+            const sources = Array.isArray(data.sources)
+              ? data.sources
+              : [];
+            setResearchSources((prev) => ({
+              ...prev,
+              [speaker]: sources,
+            }));
+            step++;
+            setLoadingProgress((step / totalSteps) * 100);
+            continue;
+          }
 
-            if (data.type === "research-start") {
-              setLoadingLabel("Researching topic...");
-              continue;
-            }
+          if (data.type === "start") {
+            const turnLabel = data.phase
+              ? ` ${String(data.phase).toLowerCase()}`
+              : data.round
+              ? ` round ${data.round}`
+              : "";
+            const labels: Record<string, string> = {
+              moderator: data.isVerdict
+                ? "Moderator deliberating..."
+                : data.isFollowUp
+                ? "Moderator stepping in..."
+                : "Moderator preparing...",
+              blue: `Blue preparing${turnLabel}...`,
+              red: `Red preparing${turnLabel}...`,
+            };
+            setLoadingLabel(labels[data.speaker] || "Preparing...");
+            continue;
+          }
 
-            if (data.type === "research-done") {
-              const speaker = data.speaker as "blue" | "red";
-              const sources = Array.isArray(data.sources)
-                ? data.sources
-                : [];
-              setResearchSources((prev) => ({
-                ...prev,
-                [speaker]: sources,
-              }));
-              step++;
-              setLoadingProgress((step / totalSteps) * 100);
-              continue;
-            }
+          if (data.type === "done") {
+            collected.push({
+              id: `${data.speaker}-${Date.now()}-${Math.random()
+                .toString(36)
+                .slice(2, 6)}`,
+              speaker: data.speaker,
+              content: data.content || "",
+              displayedContent: "",
+              isVerdict: data.isVerdict || false,
+              round: data.round,
+              phase: data.phase,
+              usage: data.usage,
+              isFollowUp: data.isFollowUp || undefined,
+              earlyStop: data.isVerdict ? earlyStop : undefined,
+              isHuman: data.human || undefined,
+              citations: Array.isArray(data.citations) && data.citations.length > 0 ? data.citations : undefined,
+              fallback: data.fallback || undefined,
+            });
+            step++;
+            setLoadingProgress((step / totalSteps) * 100);
+            continue;
+          }
 
-            if (data.type === "start") {
-              const labels: Record<string, string> = {
-                moderator: data.isVerdict
-                  ? "Moderator deliberating..."
-                  : "Moderator preparing...",
-                blue: `Blue preparing${
-                  data.round ? ` round ${data.round}` : ""
-                }...`,
-                red: `Red preparing${
-                  data.round ? ` round ${data.round}` : ""
-                }...`,
-              };
-              setLoadingLabel(labels[data.speaker] || "Preparing...");
-              continue;
+          if (data.type === "factcheck") {
+            const checked = collected.findLast(
+              (m) => m.speaker === data.speaker && m.round === data.round
+            );
+            if (checked && Array.isArray(data.claims) && data.claims.length > 0) {
+              checked.claims = data.claims;
             }
+            continue;
+          }
 
-            if (data.type === "done") {
-              collected.push({
-                id: `${data.speaker}-${Date.now()}-${Math.random()
-                  .toString(36)
-                  .slice(2, 6)}`,
-                speaker: data.speaker,
-                content: data.content || "",
-                displayedContent: "",
-                isVerdict: data.isVerdict || false,
-                round: data.round,
-              });
-              step++;
-              setLoadingProgress((step / totalSteps) * 100);
-              continue;
-            }
+          if (data.type === "early-stop") {
+            earlyStop = {
+              round: Number(data.round) || 0,
+              signal: String(data.signal ?? ""),
+              reason: String(data.reason ?? ""),
+            };
+            setLoadingLabel(`Debate ending early: ${earlyStop.reason || earlyStop.signal}`);
+            // Skipped turns will never arrive; only the verdict is left
+            step = Math.max(step, totalSteps - 1);
+            setLoadingProgress((step / totalSteps) * 100);
+            continue;
+          }
+
+          if (data.type === "await-human") {
+            pausedAt = {
+              speaker: data.speaker,
+              round: data.round,
+              phase: data.phase,
+              maxChars: Number(data.maxChars) || 400,
+              state: data.state,
+            };
+            break;
+          }
 
-            if (data.type === "complete") break;
-            if (data.type === "error")
-              console.error("Debate error:", data.message);
-          } catch {
-            /* skip invalid JSON */
+          if (data.type === "verdict") {
+            const verdict = collected.findLast((m) => m.isVerdict);
+            if (verdict && data.scorecard) {
+              verdict.scorecard = data.scorecard;
+              verdict.panel = data.panel;
+            }
+            continue;
           }
+
+          if (data.type === "complete") break;
+          if (data.type === "error")
+            console.error("Debate error:", data.message);
+        } catch {
+          /* skip invalid JSON */
         }
       }
     } catch (error) {
@@ -284,9 +437,17 @@ export default function DebateCanvas({
       return;
     } finally {
       abortControllerRef.current = null;
+      setResuming(false);
     }
 
     if (stoppedRef.current) return;
+    setHumanTurn(pausedAt);
+    if (resume) {
+      // Appended to what is already on stage; the reveal timer picks it up
+      preloadedRef.current = [...preloadedRef.current, ...collected];
+      setHumanDraft("");
+      return;
+    }
     preloadedRef.current = collected;
     nextIndexRef.current = 0;
     waitingRef.current = false;
@@ -298,13 +459,16 @@ export default function DebateCanvas({
     }, 400);
   };
 
+  /** Ends whichever request is running, first run or resume; aborting also cancels the stream server-side */
   const stopDebateGeneration = () => {
-    if (phase !== "loading" || stoppedRef.current) return;
+    if (!abortControllerRef.current || stoppedRef.current) return;
     stoppedRef.current = true;
     setIsGenerationStopped(true);
     setLoadingLabel("Debate stopped.");
     setStopMessage("Debate stopped. No further generation will run.");
-    abortControllerRef.current?.abort();
+    // Don't reopen the input for a turn that will never be answered
+    setHumanTurn(null);
+    abortControllerRef.current.abort();
     abortControllerRef.current = null;
   };
 
@@ -363,12 +527,34 @@ export default function DebateCanvas({
       const allTyped = messages.every(
         (m) => m.displayedContent.length >= m.content.length
       );
+      // Paused for the user: open their turn instead of finishing
+      if (humanTurn || resuming) {
+        if (allTyped && humanTurn && !resuming && !inputOpen) {
+          setSecondsLeft(HUMAN_TURN_SECONDS);
+          setInputOpen(true);
+        }
+        return;
+      }
       if (allTyped && messages.length > 0) {
         setPhase("complete");
         setActiveSpeaker(null);
         onComplete?.();
         onDebateFinished?.(
-          messages.map((m) => ({ speaker: m.speaker, content: m.content }))
+          messages.map((m) => ({
+            speaker: m.speaker,
+            content: m.content,
+            round: m.round,
+            phase: m.phase,
+            usage: m.usage,
+            scorecard: m.scorecard,
+            panel: m.panel,
+            isFollowUp: m.isFollowUp,
+            earlyStop: m.earlyStop,
+            isHuman: m.isHuman,
+            citations: m.citations,
+            claims: m.claims,
+            fallback: m.fallback,
+          }))
         );
       }
       return;
@@ -398,7 +584,27 @@ export default function DebateCanvas({
       setMessages((prev) => [...prev, { ...nextMsg, displayedContent: "" }]);
       setActiveSpeaker(nextMsg.speaker);
     }, delay);
-  }, [phase, messages, onComplete, onDebateFinished]);
+  }, [phase, messages, humanTurn, resuming, inputOpen, onComplete, onDebateFinished]);
+
+  // ── HUMAN TURN ─────────────────────────────────────────────────────
+
+  const submitHumanTurn = () => {
+    if (!humanTurn || resuming) return;
+    setInputOpen(false);
+    preloadDebate({ state: humanTurn.state, argument: humanDraft.trim() });
+  };
+
+  useEffect(() => {
+    if (!inputOpen) return;
+    const timer = setInterval(() => setSecondsLeft((s) => Math.max(0, s - 1)), 1000);
+    return () => clearInterval(timer);
+  }, [inputOpen]);
+
+  // Out of time: whatever has been typed is submitted
+  useEffect(() => {
+    if (inputOpen && secondsLeft === 0) submitHumanTurn();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [inputOpen, secondsLeft]);
 
   // Clear active speaker when current message finishes typing
   useEffect(() => {
@@ -452,6 +658,38 @@ export default function DebateCanvas({
     }
   };
 
+  /** Article title from a Wikipedia URL, for the user's own dossier */
+  const articleLabel = (url: string) => {
+    try {
+      return decodeURIComponent(new URL(url).pathname.split("/").pop() || url).replace(/_/g, " ");
+    } catch {
+      return url;
+    }
+  };
+
+  /** Turns [n] markers into links to the cited source */
+  const renderWithFootnotes = (text: string, citations?: Citation[]) => {
+    if (!citations?.length) return text;
+    return text.split(/(\[\d+\])/).map((part, i) => {
+      const citation = citations.find((c) => `[${c.marker}]` === part);
+      return citation ? (
+        <sup key={i}>
+          <a
+            href={citation.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={citation.title}
+            className="font-semibold text-[#7c6bf5] hover:underline"
+          >
+            [{citation.marker}]
+          </a>
+        </sup>
+      ) : (
+        <span key={i}>{part}</span>
+      );
+    });
+  };
+
   // ── SPEECH BUBBLE ──────────────────────────────────────────────────
 
   const renderBubble = (
@@ -502,7 +740,7 @@ export default function DebateCanvas({
           <p
             className={`${s.text} text-[15px] leading-[1.75] whitespace-pre-wrap tracking-[-0.01em]`}
           >
-            {preview}
+            {markClaims(preview, msg?.claims, (part) => renderWithFootnotes(part, msg?.citations))}
             {msg && isTyping(msg) && (
               <span
                 className={`inline-block w-[2px] h-[17px] ${s.dot} opacity-60 animate-pulse ml-0.5 align-middle`}
@@ -546,6 +784,116 @@ export default function DebateCanvas({
     );
   };
 
+  // ── SCORECARD ──────────────────────────────────────────────────────
+
+  // Shown once the verdict has finished typing
+  const verdictMsg = messages.find((m) => m.isVerdict);
+  const verdictShown = verdictMsg && !isTyping(verdictMsg) ? verdictMsg : undefined;
+  const scorecard = verdictShown?.scorecard;
+
+  const renderScorecard = (card: VerdictScorecard, panel?: VerdictPanel) => {
+    const winnerName = card.winner === "blue" ? "Blue" : "Red";
+    const winnerVotes = panel ? panel.votes[card.winner] : 0;
+    const loserVotes = panel ? panel.votes[card.winner === "blue" ? "red" : "blue"] : 0;
+    const scoreCell = (score: number, other: number, side: "blue" | "red") => (
+      <span
+        className={`w-10 text-center tabular-nums ${
+          score > other
+            ? side === "blue"
+              ? "font-bold text-blue-600"
+              : "font-bold text-red-600"
+            : "text-gray-500"
+        }`}
+      >
+        {score}
+      </span>
+    );
+
+    return (
+      <div className="flex-shrink-0 max-w-3xl mx-auto w-full mt-2 bg-white/70 backdrop-blur-sm rounded-2xl border border-amber-200/80 shadow-sm px-5 py-4">
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-xs font-semibold uppercase tracking-wider text-gray-500">
+            Scorecard
+          </span>
+          <span
+            className={`text-[11px] font-bold text-white px-2.5 py-0.5 rounded-full ${
+              card.winner === "blue" ? "bg-blue-500" : "bg-red-500"
+            }`}
+          >
+            {panel ? `${winnerVotes}\u2013${loserVotes} for ${winnerName}` : `${winnerName} wins`}
+          </span>
+        </div>
+        <div className="flex flex-col gap-1 text-[13px]">
+          <div className="flex items-center text-[10px] font-semibold uppercase tracking-widest text-gray-400">
+            <span className="flex-1" />
+            <span className="w-10 text-center text-blue-500">Blue</span>
+            <span className="w-10 text-center text-red-500">Red</span>
+          </div>
+          {VERDICT_CRITERIA.map((criterion) => {
+            const { blue, red } = card.criteria[criterion.id];
+            return (
+              <div key={criterion.id} className="flex items-center">
+                <span className="flex-1 text-gray-700">{criterion.label}</span>
+                {scoreCell(blue, red, "blue")}
+                {scoreCell(red, blue, "red")}
+              </div>
+            );
+          })}
+          <div className="flex items-center border-t border-gray-200/80 pt-1 mt-1 font-semibold">
+            <span className="flex-1 text-gray-800">Total</span>
+            {scoreCell(scorecardTotal(card, "blue"), scorecardTotal(card, "red"), "blue")}
+            {scoreCell(scorecardTotal(card, "red"), scorecardTotal(card, "blue"), "red")}
+          </div>
+        </div>
+        {card.rounds.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-3">
+            {card.rounds.map((round) => (
+              <span
+                key={round.round}
+                className="text-[11px] bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full tabular-nums"
+              >
+                R{round.round}{" "}
+                <span className="text-blue-600">{round.blue}</span>
+                {"\u2013"}
+                <span className="text-red-600">{round.red}</span>
+              </span>
+            ))}
+          </div>
+        )}
+        {panel ? (
+          <div className="mt-3 flex flex-col gap-1.5">
+            <span className="text-[10px] font-semibold uppercase tracking-widest text-gray-400">
+              {panel.judges.length} judges &middot;{" "}
+              {panel.aggregation === "majority" ? "majority vote" : "average score"}
+            </span>
+            {panel.judges.map((judge, i) => (
+              <div key={`${judge.model}-${i}`} className="flex items-start gap-2 text-xs">
+                <span
+                  className={`mt-1 w-2 h-2 rounded-full flex-shrink-0 ${
+                    judge.winner === "blue" ? "bg-blue-500" : "bg-red-500"
+                  }`}
+                />
+                <span className="text-gray-600 leading-relaxed">
+                  <span className="font-medium text-gray-800">
+                    {judge.model.split("/").pop()}
+                  </span>{" "}
+                  <span className="tabular-nums text-gray-400">
+                    ({judge.totals.blue}&ndash;{judge.totals.red})
+                  </span>{" "}
+                  {judge.reason}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          card.reason && (
+            <p className="mt-3 text-xs text-gray-500 leading-relaxed">{card.reason}</p>
+          )
+        )}
+      </div>
+    );
+  };
+
   // ── LOADING VIEW ───────────────────────────────────────────────────
 
   if (phase === "loading") {
@@ -680,6 +1028,23 @@ export default function DebateCanvas({
           <span className="font-medium text-gray-800">Topic:</span>{" "}
           {question}
         </div>
+        {phase === "complete" && seed !== undefined && (
+          <div className="mt-1.5 flex items-center justify-center gap-2 text-xs text-gray-400">
+            <span>Seed {seed}</span>
+            {onRerun && (
+              <>
+                <span>·</span>
+                <button onClick={() => onRerun(false)} className="hover:text-gray-700 hover:underline">
+                  Re-run with same seed
+                </button>
+                <span>·</span>
+                <button onClick={() => onRerun(true)} className="hover:text-gray-700 hover:underline">
+                  Vary a setting
+                </button>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Main content */}
@@ -787,6 +1152,97 @@ export default function DebateCanvas({
             </div>
           </div>
 
+          {inputOpen && humanTurn && (
+            <div
+              className={`flex-shrink-0 max-w-3xl mx-auto w-full mt-2 bg-white/70 backdrop-blur-sm rounded-2xl border shadow-sm px-5 py-4 ${
+                humanTurn.speaker === "blue" ? "border-blue-200/80" : "border-red-200/80"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold uppercase tracking-wider text-gray-500">
+                  Your turn &middot; {humanTurn.speaker === "blue" ? "Blue (for)" : "Red (against)"}
+                  {humanTurn.phase ? ` \u00b7 ${humanTurn.phase}` : ""}
+                </span>
+                <span
+                  className={`text-xs tabular-nums ${
+                    secondsLeft <= 15 ? "font-semibold text-red-600" : "text-gray-500"
+                  }`}
+                >
+                  {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, "0")}
+                </span>
+              </div>
+              {evidence && researchSources[humanTurn.speaker].length > 0 && (
+                <p className="mb-2 text-[11px] text-gray-500 leading-relaxed">
+                  Cite your research by number:{" "}
+                  {researchSources[humanTurn.speaker].map((url, i) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="mr-2 hover:text-gray-700 hover:underline"
+                    >
+                      [{i + 1}] {articleLabel(url)}
+                    </a>
+                  ))}
+                </p>
+              )}
+              <textarea
+                value={humanDraft}
+                onChange={(e) => setHumanDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) submitHumanTurn();
+                }}
+                maxLength={humanTurn.maxChars}
+                rows={3}
+                autoFocus
+                placeholder="Make your argument..."
+                className="w-full resize-none bg-[#fffaf2] rounded-xl px-3 py-2 border border-[#e5e7eb] outline-none focus:ring-2 focus:ring-[#7c6bf5]/30 focus:border-[#7c6bf5] text-sm text-[#2d2d2d] placeholder-[#9ca3af]"
+              />
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-[11px] text-gray-400 tabular-nums">
+                  {humanDraft.length}/{humanTurn.maxChars}
+                </span>
+                <button
+                  type="button"
+                  onClick={submitHumanTurn}
+                  className="px-4 py-1.5 rounded-lg text-sm font-medium text-white bg-[#2d2d2d] hover:bg-black transition-colors"
+                >
+                  Submit
+                </button>
+              </div>
+            </div>
+          )}
+
+          {resuming && (
+            <div className="flex-shrink-0 max-w-3xl mx-auto w-full mt-2 flex items-center justify-center gap-3">
+              <p className="text-xs text-gray-400">{loadingLabel}</p>
+              <button
+                type="button"
+                onClick={stopDebateGeneration}
+                disabled={isGenerationStopped}
+                className="px-3 py-1 rounded-lg border border-[#d1d5db] text-xs font-medium text-[#4b5563] bg-white hover:bg-[#f8fafc] transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                Stop
+              </button>
+            </div>
+          )}
+
+          {stopMessage && (
+            <p className="flex-shrink-0 max-w-3xl mx-auto w-full mt-2 text-xs text-[#9a3412] bg-[#fffbeb] border border-[#fde68a] rounded-lg px-3 py-2 text-center">
+              {stopMessage}
+            </p>
+          )}
+
+          {verdictShown?.earlyStop && (
+            <p className="flex-shrink-0 max-w-3xl mx-auto w-full mt-2 text-xs text-[#9a3412] bg-[#fffbeb] border border-[#fde68a] rounded-lg px-3 py-2 text-center">
+              The moderator ended the debate after round {verdictShown.earlyStop.round}
+              {verdictShown.earlyStop.reason ? `: ${verdictShown.earlyStop.reason}` : "."}
+            </p>
+          )}
+
+          {scorecard && renderScorecard(scorecard, verdictShown?.panel)}
+
           {/* Debate Log (collapsible) */}
           <div className="flex-shrink-0 max-w-3xl mx-auto w-full mt-2">
             <button
@@ -860,7 +1316,10 @@ export default function DebateCanvas({
                   };
 
                   let label = names[msg.speaker];
-                  if (msg.round) label += ` \u00b7 R${msg.round}`;
+                  if (msg.phase) label += ` \u00b7 ${msg.phase}`;
+                  else if (msg.round) label += ` \u00b7 R${msg.round}`;
+                  if (msg.isFollowUp) label += " \u00b7 Follow-up";
+                  if (msg.isHuman) label += " \u00b7 You";
                   if (msg.isVerdict) label += " \u00b7 Verdict";
 
                   return (
@@ -885,11 +1344,34 @@ export default function DebateCanvas({
                         } ${msg.isVerdict ? "ring-1 ring-amber-300" : ""}`}
                       >
                         <p className="text-[13px] leading-[1.7] whitespace-pre-wrap text-gray-700">
-                          {text}
+                          {markClaims(text, msg.claims, (part) => renderWithFootnotes(part, msg.citations))}
                           {isTyping(msg) && (
                             <span className="inline-block w-[2px] h-[15px] bg-gray-400 opacity-40 animate-pulse ml-0.5 align-middle" />
                           )}
                         </p>
+                        {msg.citations && !isTyping(msg) && (
+                          <ol className="mt-2 pt-2 border-t border-gray-200/70 flex flex-col gap-0.5">
+                            {msg.citations.map((citation) => (
+                              <li key={citation.marker} className="text-[11px] text-gray-500">
+                                <a
+                                  href={citation.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="hover:text-gray-700 hover:underline"
+                                >
+                                  [{citation.marker}] {citation.title}
+                                </a>
+                              </li>
+                            ))}
+                          </ol>
+                        )}
+                        {msg.claims && !isTyping(msg) && <FactCheckNotes claims={msg.claims} />}
+                        {msg.fallback && !isTyping(msg) && (
+                          <p className="mt-2 pt-2 border-t border-gray-200/70 text-[11px] text-gray-400">
+                            The model didn&apos;t return a structured reply, so this line was pulled out of its raw
+                            output and may be incomplete.
+                          </p>
+                        )}
                       </div>
                     </div>
                   );
@@ -5,10 +5,13 @@ import { useState, KeyboardEvent } from "react";
 interface DebateInputProps {
   onSubmit: (question: string) => void;
   isLoading?: boolean;
+  tabIndex?: number;
+  /** Prefills the box, e.g. when varying a finished run */
+  initialQuestion?: string;
 }
 
-export default function DebateInput({ onSubmit, isLoading }: DebateInputProps) {
-  const [question, setQuestion] = useState("");
+export default function DebateInput({ onSubmit, isLoading, tabIndex, initialQuestion }: DebateInputProps) {
+  const [question, setQuestion] = useState(initialQuestion ?? "");
 
   const handleSubmit = () => {
     if (question.trim() && !isLoading) {
@@ -47,10 +50,12 @@ export default function DebateInput({ onSubmit, isLoading }: DebateInputProps) {
           placeholder="Ask DeepConverge anything... code, decisions, ideas"
           className="flex-1 bg-transparent outline-none text-charcoal placeholder-muted"
           disabled={isLoading}
+          tabIndex={tabIndex}
         />
         <button
           onClick={handleSubmit}
           disabled={!question.trim() || isLoading}
+          tabIndex={tabIndex}
           className="px-5 py-2.5 bg-coral text-white rounded-full font-medium text-sm hover:bg-coral-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
         >
           {isLoading ? (
@@ -26,6 +26,8 @@ export default function DebateStream({ messages, currentAgent: _currentAgent }:
           agent={message.agent}
           content={message.content}
           reasoning={message.reasoning}
+          round={message.round}
+          claims={message.claims}
           isStreaming={message.isStreaming}
         />
       ))}
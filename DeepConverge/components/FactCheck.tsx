@@ -0,0 +1,89 @@
+"use client";
+
+import { Fragment, ReactNode } from "react";
+import type { CheckedClaim, ClaimStatus } from "@/lib/fact-check";
+
+const UNDERLINES: Record<ClaimStatus, string> = {
+  supported: "",
+  disputed: "underline decoration-wavy decoration-red-400 underline-offset-4",
+  unverifiable: "underline decoration-dotted decoration-gray-400 underline-offset-4",
+};
+
+const STATUS_LABELS: Record<ClaimStatus, { label: string; className: string }> = {
+  supported: { label: "Supported", className: "bg-emerald-50 text-emerald-700" },
+  disputed: { label: "Disputed", className: "bg-red-50 text-red-700" },
+  unverifiable: { label: "Unverifiable", className: "bg-gray-100 text-gray-600" },
+};
+
+/**
+ * Underlines the sentences of disputed and unverifiable claims, with the
+ * checker's note as a tooltip. `renderPart` renders the text in between.
+ */
+export function markClaims(
+  text: string,
+  claims: CheckedClaim[] | undefined,
+  renderPart: (part: string) => ReactNode = (part) => part
+): ReactNode {
+  const flagged = (claims ?? []).filter((claim) => claim.quote && claim.status !== "supported");
+  if (flagged.length === 0) return renderPart(text);
+
+  const parts: ReactNode[] = [];
+  let rest = text;
+  while (rest) {
+    let next: { at: number; claim: CheckedClaim } | null = null;
+    for (const claim of flagged) {
+      const at = rest.indexOf(claim.quote);
+      if (at !== -1 && (!next || at < next.at)) next = { at, claim };
+    }
+    if (!next) {
+      parts.push(<Fragment key={parts.length}>{renderPart(rest)}</Fragment>);
+      break;
+    }
+    if (next.at > 0) parts.push(<Fragment key={parts.length}>{renderPart(rest.slice(0, next.at))}</Fragment>);
+    parts.push(
+      <span
+        key={parts.length}
+        className={UNDERLINES[next.claim.status]}
+        title={`${STATUS_LABELS[next.claim.status].label}: ${next.claim.note}`}
+      >
+        {renderPart(next.claim.quote)}
+      </span>
+    );
+    rest = rest.slice(next.at + next.claim.quote.length);
+  }
+  return parts;
+}
+
+/** The checker's verdict on each claim of one turn */
+export default function FactCheckNotes({ claims }: { claims: CheckedClaim[] }) {
+  if (claims.length === 0) return null;
+
+  return (
+    <ul className="mt-2 pt-2 border-t border-gray-200/70 flex flex-col gap-1">
+      {claims.map((claim, i) => (
+        <li key={i} className="text-[11px] leading-snug text-gray-500">
+          <span
+            className={`mr-1.5 px-1.5 py-px rounded font-semibold ${STATUS_LABELS[claim.status].className}`}
+          >
+            {STATUS_LABELS[claim.status].label}
+          </span>
+          <span className="text-gray-700">{claim.claim}</span>
+          {claim.note && <span> · {claim.note}</span>}
+          {claim.source && (
+            <>
+              {" "}
+              <a
+                href={claim.source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="hover:text-gray-700 hover:underline"
+              >
+                ({claim.source.title})
+              </a>
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
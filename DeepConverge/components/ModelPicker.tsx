@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import { describeModel, type ModelInfo } from "@/lib/models";
+
+interface ModelPickerProps {
+  models: ModelInfo[];
+  value: string;
+  onChange: (modelId: string) => void;
+  /** Hide models that lack a capability this mode needs */
+  require?: "reasoning" | "vision";
+  className?: string;
+  tabIndex?: number;
+}
+
+export default function ModelPicker({
+  models,
+  value,
+  onChange,
+  require,
+  className = "",
+  tabIndex,
+}: ModelPickerProps) {
+  const [freeOnly, setFreeOnly] = useState(true);
+
+  const visible = models.filter(
+    (model) =>
+      model.id === value ||
+      ((!freeOnly || model.free) && (!require || model[require]))
+  );
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="min-w-0 flex-1 bg-[#fffaf2] rounded-lg px-2 py-1.5 border border-[#e5e7eb] outline-none focus:ring-2 focus:ring-[#7c6bf5]/30 focus:border-[#7c6bf5] text-xs text-[#2d2d2d]"
+        tabIndex={tabIndex}
+      >
+        {visible.map((model) => (
+          <option key={model.id} value={model.id}>
+            {model.name} ({describeModel(model)})
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1 text-[11px] text-[#6b7280] whitespace-nowrap">
+        <input
+          type="checkbox"
+          checked={freeOnly}
+          onChange={(e) => setFreeOnly(e.target.checked)}
+          className="accent-[#6b7280]"
+          tabIndex={tabIndex}
+        />
+        Free only
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { Message } from "@/lib/types";
+
+interface RunLanesProps {
+  runCount: number;
+  /** Every turn of every run; `run` picks the lane */
+  messages: Message[];
+  /** Error text for runs that failed */
+  failures?: Record<number, string>;
+}
+
+const PREVIEW_CHARS = 220;
+
+export default function RunLanes({ runCount, messages, failures = {} }: RunLanesProps) {
+  const lanes = Array.from({ length: runCount }, (_, run) =>
+    messages.filter((message) => message.run === run)
+  );
+
+  return (
+    <div className="w-full max-w-5xl overflow-x-auto">
+      <div
+        className="grid gap-3"
+        style={{ gridTemplateColumns: `repeat(${runCount}, minmax(220px, 1fr))` }}
+      >
+        {lanes.map((lane, run) => {
+          const isRunning = lane.some((message) => message.isStreaming);
+          return (
+            <div key={run} className="glass-card p-3 flex flex-col gap-2 min-w-0">
+              <div className="flex items-center justify-between text-[10px] font-semibold uppercase tracking-widest text-muted">
+                <span>Run {run + 1}</span>
+                <span>
+                  {failures[run]
+                    ? "Failed"
+                    : isRunning
+                    ? "Running"
+                    : lane.length > 0
+                    ? "Done"
+                    : "Waiting"}
+                </span>
+              </div>
+
+              {lane.map((message) => (
+                <details key={message.id} className="rounded-lg bg-white/60 border border-gray-100 px-2.5 py-2">
+                  <summary className="cursor-pointer list-none text-xs">
+                    <span className="flex items-center gap-1.5 font-medium" style={{ color: message.agent.color }}>
+                      <span>{message.agent.icon}</span>
+                      <span className="truncate">{message.agent.name}</span>
+                      {message.round && message.agent.kind !== "judge" && (
+                        <span className="text-[10px] text-muted font-normal">R{message.round}</span>
+                      )}
+                      {message.isStreaming && (
+                        <span className="ml-auto w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse" />
+                      )}
+                    </span>
+                    <span className="block mt-1 text-[11px] leading-relaxed text-charcoal/80">
+                      {message.content.length > PREVIEW_CHARS
+                        ? `${message.content.slice(0, PREVIEW_CHARS)}…`
+                        : message.content || (message.isStreaming ? "Thinking..." : "")}
+                    </span>
+                  </summary>
+                  {message.content.length > PREVIEW_CHARS && (
+                    <p className="mt-1 text-[11px] leading-relaxed text-charcoal/80 whitespace-pre-wrap">
+                      {message.content.slice(PREVIEW_CHARS)}
+                    </p>
+                  )}
+                </details>
+              ))}
+
+              {failures[run] && <p className="text-[11px] text-[#b45309]">{failures[run]}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
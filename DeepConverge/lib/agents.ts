@@ -1,4 +1,10 @@
-import { Agent, AgentRole } from "./types";
+import { Agent, AgentKind, AgentModelSettings, AgentProfile, AgentRole, DebateTurn } from "./types";
+import type { ReasoningEffort } from "./llm/types";
+import { DEFAULT_CHAT_MODEL, DEFAULT_DEBATE_MODEL } from "./models";
+
+const DEFAULT_MODEL = DEFAULT_CHAT_MODEL;
+const DEFAULT_FALLBACKS = [DEFAULT_DEBATE_MODEL];
+const REASONING_EFFORTS: ReasoningEffort[] = ["none", "low", "medium", "high"];
 
 export const agents: Record<AgentRole, Agent> = {
   advocate: {
@@ -7,6 +13,12 @@ export const agents: Record<AgentRole, Agent> = {
     description: "Argues the positive side",
     color: "#f08a7a",
     icon: "👍",
+    kind: "debater",
+    model: DEFAULT_MODEL,
+    temperature: 0.7,
+    maxTokens: 4096,
+    reasoningEffort: "high",
+    fallbackModels: DEFAULT_FALLBACKS,
     systemPrompt: `You are the Advocate in a structured debate. Your role is to argue FOR the topic or idea presented.
 
 Your approach:
@@ -24,6 +36,12 @@ Respond with your argument directly. Do not reference being an AI or the debate
     description: "Challenges and finds flaws",
     color: "#6b7280",
     icon: "⚔️",
+    kind: "debater",
+    model: DEFAULT_MODEL,
+    temperature: 0.7,
+    maxTokens: 4096,
+    reasoningEffort: "high",
+    fallbackModels: DEFAULT_FALLBACKS,
     systemPrompt: `You are the Critic in a structured debate. Your role is to challenge the Advocate's position and present counterarguments.
 
 Your approach:
@@ -41,6 +59,12 @@ You will see the Advocate's argument. Challenge it directly and present the oppo
     description: "Delivers the final verdict",
     color: "#6b7280",
     icon: "⚖️",
+    kind: "judge",
+    model: DEFAULT_MODEL,
+    temperature: 0.7,
+    maxTokens: 4096,
+    reasoningEffort: "high",
+    fallbackModels: DEFAULT_FALLBACKS,
     systemPrompt: `You are the Judge in a structured debate. Your role is to synthesize both perspectives and deliver a balanced verdict.
 
 Your approach:
@@ -55,3 +79,156 @@ You will see both the Advocate's and Critic's arguments. Synthesize them into a
 };
 
 export const agentOrder: AgentRole[] = ["advocate", "critic", "judge"];
+
+/** Reconciles parallel runs in self-consistency mode; never part of a lineup */
+export const aggregatorProfile: AgentProfile = {
+  id: "aggregator",
+  name: "Aggregator",
+  description: "Reconciles independent runs",
+  color: "#b45309",
+  icon: "🧮",
+  kind: "judge",
+};
+
+export const DEFAULT_REBUTTAL_ROUNDS = 1;
+export const MAX_REBUTTAL_ROUNDS = 3;
+
+/** Independent debates run side by side in self-consistency mode */
+export const MAX_PARALLEL_RUNS = 5;
+
+export const MAX_LINEUP_SIZE = 6;
+const AGENT_KINDS: AgentKind[] = ["debater", "judge"];
+const DEFAULT_CUSTOM_COLOR = "#6b7280";
+const CUSTOM_AGENT_SETTINGS: AgentModelSettings = {
+  model: DEFAULT_MODEL,
+  temperature: 0.7,
+  maxTokens: 4096,
+  reasoningEffort: "high",
+  fallbackModels: DEFAULT_FALLBACKS,
+};
+
+function isBuiltinRole(value: unknown): value is AgentRole {
+  return typeof value === "string" && Object.hasOwn(agents, value);
+}
+
+function boundedString(value: unknown, maxLength: number): string {
+  return typeof value === "string" ? value.trim().slice(0, maxLength) : "";
+}
+
+/**
+ * Turns a requested lineup into agents, in speaking order. Entries are either
+ * built-in role ids or user-defined agents; `lineupModel` replaces the model
+ * of every agent that doesn't name its own.
+ */
+export function parseLineup(
+  value: unknown,
+  lineupModel?: string
+): { lineup: Agent[] } | { error: string } {
+  const entries = value === undefined ? agentOrder : value;
+  if (!Array.isArray(entries) || entries.length === 0 || entries.length > MAX_LINEUP_SIZE) {
+    return { error: `lineup must list 1 to ${MAX_LINEUP_SIZE} agents` };
+  }
+
+  const lineup: Agent[] = [];
+  for (const entry of entries) {
+    if (isBuiltinRole(entry)) {
+      lineup.push(lineupModel ? { ...agents[entry], model: lineupModel } : agents[entry]);
+      continue;
+    }
+    if (!entry || typeof entry !== "object") {
+      return { error: "lineup entries must be a built-in role or an agent object" };
+    }
+
+    const raw = entry as Record<string, unknown>;
+    const id = boundedString(raw.id, 64);
+    const name = boundedString(raw.name, 40);
+    const systemPrompt = boundedString(raw.systemPrompt, 4000);
+    if (!/^[\w-]+$/.test(id) || isBuiltinRole(id) || id === aggregatorProfile.id) {
+      return { error: `Invalid agent id: ${String(raw.id)}` };
+    }
+    if (!name || !systemPrompt) {
+      return { error: `Agent ${id} needs a name and a system prompt` };
+    }
+
+    const color = boundedString(raw.color, 7);
+    const model = boundedString(raw.model, 200);
+    lineup.push({
+      ...CUSTOM_AGENT_SETTINGS,
+      id,
+      name,
+      description: boundedString(raw.description, 120),
+      color: /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_CUSTOM_COLOR,
+      icon: boundedString(raw.icon, 8) || "💬",
+      kind: AGENT_KINDS.includes(raw.kind as AgentKind) ? (raw.kind as AgentKind) : "debater",
+      systemPrompt,
+      model: model || lineupModel || DEFAULT_MODEL,
+    });
+  }
+
+  if (new Set(lineup.map((agent) => agent.id)).size !== lineup.length) {
+    return { error: "lineup lists the same agent twice" };
+  }
+  if (!lineup.some((agent) => agent.kind === "debater")) {
+    return { error: "lineup needs at least one debater" };
+  }
+  return { lineup };
+}
+
+/**
+ * Turn order for a debate: every debater opens in round 1, then they answer
+ * each other for `rebuttalRounds` more rounds before the judges rule.
+ */
+export function debateSchedule(lineup: Agent[], rebuttalRounds: number): DebateTurn[] {
+  const debaters = lineup.filter((agent) => agent.kind === "debater");
+  const judges = lineup.filter((agent) => agent.kind === "judge");
+  const lastRound = rebuttalRounds + 1;
+  const turns: DebateTurn[] = [];
+  for (let round = 1; round <= lastRound; round++) {
+    for (const agent of debaters) turns.push({ agent, round });
+  }
+  for (const agent of judges) turns.push({ agent, round: lastRound });
+  return turns;
+}
+
+/** Reads a requested rebuttal count, falling back to the default when it isn't a number */
+export function clampRebuttalRounds(value: unknown): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return DEFAULT_REBUTTAL_ROUNDS;
+  return Math.min(Math.max(Math.round(value), 0), MAX_REBUTTAL_ROUNDS);
+}
+
+/** Reads a requested parallel run count; 1 (a single debate) when it isn't a number */
+export function clampParallelRuns(value: unknown): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return 1;
+  return Math.min(Math.max(Math.round(value), 1), MAX_PARALLEL_RUNS);
+}
+
+/**
+ * Applies per-request model settings on top of an agent's defaults.
+ * Unknown or out-of-range values are ignored rather than rejected.
+ */
+export function withModelOverrides(agent: Agent, overrides: unknown): Agent {
+  if (!overrides || typeof overrides !== "object") return agent;
+  const raw = overrides as Record<string, unknown>;
+  const settings: Partial<AgentModelSettings> = {};
+
+  if (typeof raw.model === "string" && raw.model.trim() && raw.model.length <= 200) {
+    settings.model = raw.model.trim();
+  }
+  if (typeof raw.temperature === "number" && Number.isFinite(raw.temperature)) {
+    settings.temperature = Math.min(Math.max(raw.temperature, 0), 2);
+  }
+  if (typeof raw.maxTokens === "number" && Number.isFinite(raw.maxTokens)) {
+    settings.maxTokens = Math.min(Math.max(Math.round(raw.maxTokens), 64), 16384);
+  }
+  if (REASONING_EFFORTS.includes(raw.reasoningEffort as ReasoningEffort)) {
+    settings.reasoningEffort = raw.reasoningEffort as ReasoningEffort;
+  }
+  if (Array.isArray(raw.fallbackModels)) {
+    settings.fallbackModels = raw.fallbackModels
+      .filter((model): model is string => typeof model === "string" && !!model.trim() && model.length <= 200)
+      .map((model) => model.trim())
+      .slice(0, 5);
+  }
+
+  return { ...agent, ...settings };
+}
@@ -0,0 +1,251 @@
+// Debate formats for /api/debate-mode, kept as plain data so the setup
+// screen can list them and the route can walk their phases in order.
+
+export type DebateSide = "blue" | "red";
+
+/** "first"/"second" follow the coin toss; "blue"/"red" are fixed sides */
+export type SpeakerSlot = "first" | "second" | DebateSide;
+
+export type PhaseKind = "opening" | "cross-examination" | "rebuttal" | "closing";
+
+export interface DebatePhase {
+  kind: PhaseKind;
+  label: string;
+  /** Speaking order within the phase */
+  speakers: SpeakerSlot[];
+  /** Instruction given to each speaker in this phase */
+  prompt: string;
+  /** Per-speaker instruction, for phases where the two sides do different things */
+  speakerPrompts?: Partial<Record<SpeakerSlot, string>>;
+  /** Spoken length cap, in characters */
+  maxChars: number;
+  /** Runs once per extra debate round (rounds - 1 times) instead of once */
+  repeat?: boolean;
+}
+
+export interface DebateFormat {
+  id: string;
+  name: string;
+  description: string;
+  /** Whether a coin toss picks who speaks first; otherwise Blue opens */
+  coinToss: boolean;
+  /** Speakers must restate the other side's strongest point before answering it */
+  steelmanFirst?: boolean;
+  phases: DebatePhase[];
+}
+
+export interface ScheduledTurn {
+  speaker: SpeakerSlot;
+  phase: DebatePhase;
+  /** 1-based count of phases run so far, shown as the round */
+  round: number;
+}
+
+export const DEFAULT_DEBATE_FORMAT = "classic";
+
+/** What each debater is shown of the debate so far */
+export type DebateMemory = "last" | "transcript" | "summary";
+
+export const DEFAULT_DEBATE_MEMORY: DebateMemory = "last";
+
+export const DEBATE_MEMORY_MODES: { id: DebateMemory; name: string; description: string }[] = [
+  {
+    id: "last",
+    name: "Last message",
+    description: "Each side sees only the opponent's latest turn",
+  },
+  {
+    id: "transcript",
+    name: "Full transcript",
+    description: "Each side sees every turn so far, including its own and the moderator's",
+  },
+  {
+    id: "summary",
+    name: "Rolling summary",
+    description: "A short summary of earlier rounds, updated between rounds, plus the latest turn",
+  },
+];
+
+export const DEBATE_FORMATS: DebateFormat[] = [
+  {
+    id: "classic",
+    name: "Classic",
+    description: "Openings, then alternating replies",
+    coinToss: true,
+    phases: [
+      {
+        kind: "opening",
+        label: "Opening",
+        speakers: ["first", "second"],
+        prompt: "Make your case.",
+        maxChars: 400,
+      },
+      {
+        kind: "rebuttal",
+        label: "Rebuttal",
+        speakers: ["first", "second"],
+        prompt: "Respond directly.",
+        maxChars: 400,
+        repeat: true,
+      },
+    ],
+  },
+  {
+    id: "oxford",
+    name: "Oxford",
+    description: "Openings, cross-examination, rebuttals and closing statements",
+    coinToss: true,
+    phases: [
+      {
+        kind: "opening",
+        label: "Opening",
+        speakers: ["first", "second"],
+        prompt: "Give your opening statement: your position and your two strongest reasons.",
+        maxChars: 450,
+      },
+      {
+        kind: "cross-examination",
+        label: "Cross-examination",
+        speakers: ["second", "first"],
+        prompt:
+          "Answer any question your opponent just asked, then put one pointed question to them about the weakest part of their case.",
+        maxChars: 350,
+      },
+      {
+        kind: "rebuttal",
+        label: "Rebuttal",
+        speakers: ["first", "second"],
+        prompt: "Rebut your opponent's last point directly.",
+        maxChars: 400,
+        repeat: true,
+      },
+      {
+        kind: "closing",
+        label: "Closing",
+        speakers: ["second", "first"],
+        prompt: "Give your closing statement. Sum up why your side should win. Add no new arguments.",
+        maxChars: 400,
+      },
+    ],
+  },
+  {
+    id: "lincoln-douglas",
+    name: "Lincoln–Douglas",
+    description: "Values debate: affirmative opens and gets the last word",
+    coinToss: false,
+    phases: [
+      {
+        kind: "opening",
+        label: "Constructive",
+        speakers: ["blue", "red"],
+        prompt:
+          "Give your constructive: name the core value at stake and the criterion for judging it, then argue your side meets it.",
+        maxChars: 500,
+      },
+      {
+        kind: "cross-examination",
+        label: "Cross-examination",
+        speakers: ["red", "blue"],
+        prompt: "Answer any question just put to you, then ask your opponent one question about their value or criterion.",
+        maxChars: 350,
+      },
+      {
+        kind: "rebuttal",
+        label: "Rebuttal",
+        speakers: ["blue", "red"],
+        prompt: "Weigh the two values against each other and rebut your opponent's last point.",
+        maxChars: 400,
+        repeat: true,
+      },
+      {
+        kind: "closing",
+        label: "Final rebuttal",
+        speakers: ["red", "blue"],
+        prompt: "Give your final rebuttal. Explain why your value should win the round.",
+        maxChars: 400,
+      },
+    ],
+  },
+  {
+    id: "socratic",
+    name: "Socratic",
+    description: "Red questions, Blue defends under questioning",
+    coinToss: false,
+    phases: [
+      {
+        kind: "opening",
+        label: "Position",
+        speakers: ["blue"],
+        prompt: "State your position plainly and the main reason you hold it.",
+        maxChars: 350,
+      },
+      {
+        kind: "cross-examination",
+        label: "Questioning",
+        speakers: ["red", "blue"],
+        prompt: "Continue the questioning.",
+        speakerPrompts: {
+          red: "Ask one short, probing question that tests an assumption in what Blue just said. Do not argue, only ask.",
+          blue: "Answer the question honestly and directly. Concede anything you cannot defend.",
+        },
+        maxChars: 300,
+        repeat: true,
+      },
+      {
+        kind: "closing",
+        label: "Closing",
+        speakers: ["red", "blue"],
+        prompt: "Say what the questioning revealed and whether the position survived it.",
+        maxChars: 400,
+      },
+    ],
+  },
+  {
+    id: "steelman",
+    name: "Steelman first",
+    description: "Every reply first restates the other side at its strongest",
+    coinToss: true,
+    steelmanFirst: true,
+    phases: [
+      {
+        kind: "opening",
+        label: "Opening",
+        speakers: ["first", "second"],
+        prompt: "Make your case.",
+        maxChars: 450,
+      },
+      {
+        kind: "rebuttal",
+        label: "Rebuttal",
+        speakers: ["first", "second"],
+        prompt: "Respond directly.",
+        maxChars: 500,
+        repeat: true,
+      },
+    ],
+  },
+];
+
+export function findDebateFormat(id: string): DebateFormat | undefined {
+  return DEBATE_FORMATS.find((format) => format.id === id);
+}
+
+/** Expands a format's phases into the flat turn list for `rounds` debate rounds */
+export function scheduleTurns(format: DebateFormat, rounds: number): ScheduledTurn[] {
+  const turns: ScheduledTurn[] = [];
+  let round = 0;
+  for (const phase of format.phases) {
+    const times = phase.repeat ? Math.max(0, rounds - 1) : 1;
+    for (let i = 0; i < times; i++) {
+      round++;
+      for (const speaker of phase.speakers) turns.push({ speaker, phase, round });
+    }
+  }
+  return turns;
+}
+
+export function resolveSide(slot: SpeakerSlot, blueFirst: boolean): DebateSide {
+  if (slot === "first") return blueFirst ? "blue" : "red";
+  if (slot === "second") return blueFirst ? "red" : "blue";
+  return slot;
+}
@@ -0,0 +1,179 @@
+import type { DebateSide } from "./debate-formats";
+import { JsonSchema, validateJson } from "./llm/structured";
+
+// The moderator's rubric for /api/debate-mode. Scores are 1-10 per side;
+// a judge panel's combined scorecard holds averages, so they may be fractional.
+
+export type VerdictCriterion = "evidence" | "logic" | "rebuttal" | "clarity";
+
+export const VERDICT_CRITERIA: { id: VerdictCriterion; label: string }[] = [
+  { id: "evidence", label: "Evidence" },
+  { id: "logic", label: "Logic" },
+  { id: "rebuttal", label: "Rebuttal quality" },
+  { id: "clarity", label: "Clarity" },
+];
+
+export type SideScores = Record<DebateSide, number>;
+
+export type VerdictAggregation = "majority" | "average";
+
+export const MAX_JUDGE_PANEL = 5;
+
+export interface VerdictScorecard {
+  winner: DebateSide;
+  criteria: Record<VerdictCriterion, SideScores>;
+  rounds: (SideScores & { round: number })[];
+  /** One sentence on what decided it */
+  reason: string;
+}
+
+const SCORE: JsonSchema = { type: "number", minimum: 1, maximum: 10 };
+
+const SIDE_SCORES: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["blue", "red"],
+  properties: { blue: SCORE, red: SCORE },
+};
+
+export const SCORECARD_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["winner", "criteria", "rounds", "reason"],
+  properties: {
+    winner: { type: "string", enum: ["blue", "red"] },
+    criteria: {
+      type: "object",
+      additionalProperties: false,
+      required: VERDICT_CRITERIA.map((criterion) => criterion.id),
+      properties: Object.fromEntries(VERDICT_CRITERIA.map((criterion) => [criterion.id, SIDE_SCORES])),
+    },
+    rounds: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["round", "blue", "red"],
+        properties: { round: { type: "integer", minimum: 1 }, ...SIDE_SCORES.properties },
+      },
+    },
+    reason: { type: "string" },
+  },
+};
+
+/** One judge's ballot on a panel */
+export interface JudgeVote {
+  model: string;
+  winner: DebateSide;
+  totals: SideScores;
+  reason: string;
+}
+
+export interface VerdictPanel {
+  aggregation: VerdictAggregation;
+  votes: SideScores;
+  judges: JudgeVote[];
+}
+
+const PANEL_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["aggregation", "votes", "judges"],
+  properties: {
+    aggregation: { type: "string", enum: ["majority", "average"] },
+    votes: { type: "object", required: ["blue", "red"] },
+    judges: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["model", "winner", "totals", "reason"],
+        properties: {
+          model: { type: "string" },
+          winner: { type: "string", enum: ["blue", "red"] },
+          totals: { type: "object", required: ["blue", "red"] },
+          reason: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+/** Sum of a side's criterion scores */
+export function scorecardTotal(scorecard: VerdictScorecard, side: DebateSide): number {
+  return VERDICT_CRITERIA.reduce((sum, criterion) => sum + scorecard.criteria[criterion.id][side], 0);
+}
+
+/** Scorecard from saved message metadata; null when missing or malformed */
+export function readScorecard(value: unknown): VerdictScorecard | null {
+  return value !== undefined && validateJson(value, SCORECARD_SCHEMA).length === 0
+    ? (value as VerdictScorecard)
+    : null;
+}
+
+/** Panel from saved message metadata; null for single-judge verdicts or bad data */
+export function readVerdictPanel(value: unknown): VerdictPanel | null {
+  return value !== undefined && validateJson(value, PANEL_SCHEMA).length === 0
+    ? (value as VerdictPanel)
+    : null;
+}
+
+const average = (values: number[]) =>
+  Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+
+const averageSides = (scores: SideScores[]): SideScores => ({
+  blue: average(scores.map((score) => score.blue)),
+  red: average(scores.map((score) => score.red)),
+});
+
+/**
+ * Folds a panel's scorecards into one. Scores are always averaged; the
+ * winner comes from the vote count ("majority") or the averaged totals
+ * ("average"), with the other used to break a tie.
+ */
+export function combineScorecards(
+  ballots: { model: string; scorecard: VerdictScorecard }[],
+  aggregation: VerdictAggregation
+): { scorecard: VerdictScorecard; panel: VerdictPanel } {
+  const cards = ballots.map((ballot) => ballot.scorecard);
+  const criteria = Object.fromEntries(
+    VERDICT_CRITERIA.map((criterion) => [
+      criterion.id,
+      averageSides(cards.map((card) => card.criteria[criterion.id])),
+    ])
+  ) as Record<VerdictCriterion, SideScores>;
+  const roundIds = [...new Set(cards.flatMap((card) => card.rounds.map((round) => round.round)))].sort(
+    (a, b) => a - b
+  );
+  const rounds = roundIds.map((round) => ({
+    round,
+    ...averageSides(cards.flatMap((card) => card.rounds.filter((entry) => entry.round === round))),
+  }));
+
+  const votes: SideScores = {
+    blue: cards.filter((card) => card.winner === "blue").length,
+    red: cards.filter((card) => card.winner === "red").length,
+  };
+  const combined = { winner: cards[0].winner, criteria, rounds, reason: "" };
+  const byVotes = Math.sign(votes.blue - votes.red);
+  const byScores = Math.sign(scorecardTotal(combined, "blue") - scorecardTotal(combined, "red"));
+  const [primary, tiebreak] = aggregation === "majority" ? [byVotes, byScores] : [byScores, byVotes];
+  const lead = primary || tiebreak;
+  const winner: DebateSide = lead > 0 ? "blue" : lead < 0 ? "red" : cards[0].winner;
+
+  return {
+    scorecard: {
+      ...combined,
+      winner,
+      reason: cards.find((card) => card.winner === winner)?.reason ?? cards[0].reason,
+    },
+    panel: {
+      aggregation,
+      votes,
+      judges: ballots.map(({ model, scorecard }) => ({
+        model,
+        winner: scorecard.winner,
+        totals: { blue: scorecardTotal(scorecard, "blue"), red: scorecardTotal(scorecard, "red") },
+        reason: scorecard.reason,
+      })),
+    },
+  };
+}
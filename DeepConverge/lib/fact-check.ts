@@ -0,0 +1,122 @@
+import { ChatMessage, ResponseFormat } from "./llm/types";
+import { completeStructured, JsonSchema, StructuredOutputError } from "./llm/structured";
+import type { SearchResult } from "./wikipedia";
+
+// Optional verifier for both debate routes. After a turn it pulls out the
+// factual claims and rates each one against the Wikipedia results the route
+// hands it. Opinions and predictions are not claims and are skipped.
+
+export type ClaimStatus = "supported" | "disputed" | "unverifiable";
+
+export interface CheckedClaim {
+  claim: string;
+  /** The sentence of the turn that makes the claim, verbatim; empty when the model misquoted it */
+  quote: string;
+  status: ClaimStatus;
+  /** One sentence on why */
+  note: string;
+  source?: { title: string; url: string };
+}
+
+const MAX_CLAIMS = 4;
+
+interface FactCheckReply {
+  claims: {
+    claim: string;
+    quote: string;
+    status: ClaimStatus;
+    /** 1-based index into the sources; 0 when none applies */
+    source: number;
+    note: string;
+  }[];
+}
+
+const FACTCHECK_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["claims"],
+  properties: {
+    claims: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["claim", "quote", "status", "source", "note"],
+        properties: {
+          claim: { type: "string" },
+          quote: { type: "string" },
+          status: { type: "string", enum: ["supported", "disputed", "unverifiable"] },
+          source: { type: "integer", minimum: 0 },
+          note: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const FACTCHECK_SYSTEM = `You are the fact-checker of a live debate.
+List the checkable factual claims in the speaker's turn: numbers, dates, events, studies, what a law or organisation says. Skip opinions, values and predictions.
+For each claim give:
+- claim: the claim in a few words
+- quote: the sentence of the turn that makes it, copied exactly
+- status: "supported" if a source backs it, "disputed" if a source or well-established knowledge contradicts it, "unverifiable" otherwise
+- source: the number of the source you relied on, or 0
+- note: one short sentence on why
+List at most ${MAX_CLAIMS} claims, the most important first. An empty list is fine.
+Reply with only a JSON object matching the schema.`;
+
+const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/** Claims from one turn; an empty list when the checker's reply can't be parsed */
+export async function factCheckTurn(params: {
+  question: string;
+  speaker: string;
+  text: string;
+  sources: SearchResult[];
+  ask: (messages: ChatMessage[], responseFormat: ResponseFormat) => Promise<string>;
+}): Promise<CheckedClaim[]> {
+  const sources = params.sources.length
+    ? params.sources.map((source, i) => `[${i + 1}] ${source.title}: ${source.snippet}`).join("\n")
+    : "(no sources found)";
+
+  let reply: FactCheckReply;
+  try {
+    ({ value: reply } = await completeStructured<FactCheckReply>({
+      name: "fact_check",
+      schema: FACTCHECK_SCHEMA,
+      messages: [
+        { role: "system", content: FACTCHECK_SYSTEM },
+        {
+          role: "user",
+          content: `Debate topic: "${params.question}"\n\nSources:\n${sources}\n\n${params.speaker} said:\n${params.text}`,
+        },
+      ],
+      ask: params.ask,
+      maxRepairs: 1,
+    }));
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) throw error;
+    console.warn("[fact-check] invalid reply:", error.message);
+    return [];
+  }
+
+  const turn = collapse(params.text);
+  return reply.claims.slice(0, MAX_CLAIMS).map((claim) => {
+    const quote = collapse(claim.quote);
+    const source = params.sources[claim.source - 1];
+    return {
+      claim: claim.claim.trim(),
+      quote: quote && turn.includes(quote) ? quote : "",
+      status: claim.status,
+      note: claim.note.trim(),
+      ...(source && { source: { title: source.title, url: source.url } }),
+    };
+  });
+}
+
+/** One line per disputed claim, for the prompt of whoever rules on the debate */
+export function describeDisputed(speaker: string, claims: CheckedClaim[]): string[] {
+  return claims
+    .filter((claim) => claim.status === "disputed")
+    .map((claim) => `- ${speaker}: "${claim.claim}" (${claim.note})`);
+}
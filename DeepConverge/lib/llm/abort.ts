@@ -0,0 +1,46 @@
+/**
+ * Controller for all upstream work of one request. It aborts when the client
+ * disconnects, and routes also abort it from their stream's `cancel()`.
+ */
+export function abortWithRequest(request: Request): AbortController {
+  const controller = new AbortController();
+  if (request.signal.aborted) {
+    controller.abort();
+  } else {
+    request.signal.addEventListener("abort", () => controller.abort(), { once: true });
+  }
+  return controller;
+}
+
+/** Sent by clients that reconnect after a dropped connection (lib/resumable-events) */
+export const RESUME_HEADER = "X-Stream-Resume";
+
+export interface DetachableAbort extends AbortController {
+  /** The client sent RESUME_HEADER, so a disconnect may be followed by a resume */
+  resumable: boolean;
+  /** Stops a client disconnect from aborting; later aborts come from the stream alone */
+  detach(): void;
+}
+
+/**
+ * Like abortWithRequest, but only until `detach()`. Resumable streams detach
+ * once their events are buffered, so generation outlives a dropped connection.
+ */
+export function abortUntilDetached(request: Request): DetachableAbort {
+  const controller = new AbortController() as DetachableAbort;
+  controller.resumable = request.headers.get(RESUME_HEADER) === "1";
+  let attached = true;
+  controller.detach = () => {
+    attached = false;
+  };
+  if (request.signal.aborted) {
+    controller.abort();
+  } else {
+    request.signal.addEventListener("abort", () => attached && controller.abort(), { once: true });
+  }
+  return controller;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
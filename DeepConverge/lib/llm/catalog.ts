@@ -0,0 +1,119 @@
+import { BUILTIN_MODELS, ModelInfo } from "../models";
+import { setModelPrice } from "./usage";
+
+const OPENROUTER_MODELS_URL = "https://openrouter.ai/api/v1/models";
+const CACHE_TTL_MS = 60 * 60 * 1000;
+/** A failed fetch is retried sooner than a good list is refreshed */
+const RETRY_MS = 5 * 60 * 1000;
+
+interface CatalogCache {
+  models: ModelInfo[];
+  /** False when we are serving BUILTIN_MODELS because the fetch failed */
+  live: boolean;
+  fetchedAt: number;
+}
+
+let cache: CatalogCache | null = null;
+let inFlight: Promise<CatalogCache> | null = null;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/** OpenRouter prices are USD-per-token strings */
+function perMillion(value: unknown): number {
+  const perToken = typeof value === "string" ? Number(value) : typeof value === "number" ? value : NaN;
+  return Number.isFinite(perToken) && perToken > 0 ? perToken * 1_000_000 : 0;
+}
+
+function toModelInfo(raw: unknown): ModelInfo | null {
+  if (!isRecord(raw) || typeof raw.id !== "string") return null;
+
+  const architecture = isRecord(raw.architecture) ? raw.architecture : {};
+  const inputs = Array.isArray(architecture.input_modalities) ? architecture.input_modalities : [];
+  const outputs = Array.isArray(architecture.output_modalities) ? architecture.output_modalities : ["text"];
+  if (!outputs.includes("text")) return null;
+
+  const parameters = Array.isArray(raw.supported_parameters) ? raw.supported_parameters : [];
+  const pricing = isRecord(raw.pricing) ? raw.pricing : {};
+  const prompt = perMillion(pricing.prompt);
+  const completion = perMillion(pricing.completion);
+
+  return {
+    id: raw.id,
+    name: typeof raw.name === "string" ? raw.name : raw.id,
+    contextLength: typeof raw.context_length === "number" ? raw.context_length : 0,
+    reasoning: parameters.includes("reasoning"),
+    vision: inputs.includes("image"),
+    structuredOutput: parameters.includes("response_format") || parameters.includes("structured_outputs"),
+    free: raw.id.endsWith(":free") || (prompt === 0 && completion === 0),
+    pricing: { prompt, completion },
+  };
+}
+
+async function fetchCatalog(): Promise<CatalogCache> {
+  // Offline backends never reach OpenRouter, so there is nothing to list
+  const provider = (process.env.LLM_PROVIDER || "openrouter").toLowerCase();
+  if (provider !== "openrouter" || process.env.LLM_FIXTURES === "replay") {
+    return { models: BUILTIN_MODELS, live: false, fetchedAt: Date.now() };
+  }
+
+  try {
+    const response = await fetch(OPENROUTER_MODELS_URL, { cache: "no-store" });
+    if (!response.ok) throw new Error(`status ${response.status}`);
+    const json: unknown = await response.json();
+    const data = isRecord(json) && Array.isArray(json.data) ? json.data : [];
+    const models = data
+      .map(toModelInfo)
+      .filter((model): model is ModelInfo => model !== null)
+      .sort((a, b) => Number(b.free) - Number(a.free) || a.name.localeCompare(b.name));
+    if (models.length === 0) throw new Error("empty model list");
+
+    for (const model of models) setModelPrice(model.id, model.pricing);
+    return { models, live: true, fetchedAt: Date.now() };
+  } catch (error) {
+    console.warn("[models] could not fetch OpenRouter catalog:", error);
+    // Keep serving a stale live list over the builtin one
+    return cache?.live
+      ? { ...cache, fetchedAt: Date.now() }
+      : { models: BUILTIN_MODELS, live: false, fetchedAt: Date.now() };
+  }
+}
+
+async function loadCatalog(): Promise<CatalogCache> {
+  if (cache && Date.now() - cache.fetchedAt < (cache.live ? CACHE_TTL_MS : RETRY_MS)) {
+    return cache;
+  }
+  if (!inFlight) {
+    inFlight = fetchCatalog().then((result) => {
+      cache = result;
+      inFlight = null;
+      return result;
+    });
+  }
+  return inFlight;
+}
+
+export async function getModelCatalog(): Promise<ModelInfo[]> {
+  return (await loadCatalog()).models;
+}
+
+/**
+ * Looks a requested id up in the catalog. When only the builtin list is
+ * available we can't tell whether an id exists, so it is trusted as-is.
+ */
+export async function findModel(id: string): Promise<ModelInfo | null> {
+  const catalog = await loadCatalog();
+  const found = catalog.models.find((model) => model.id === id);
+  if (found || catalog.live) return found ?? null;
+  return {
+    id,
+    name: id,
+    contextLength: 0,
+    reasoning: false,
+    vision: false,
+    structuredOutput: false,
+    free: id.endsWith(":free"),
+    pricing: { prompt: 0, completion: 0 },
+  };
+}
@@ -0,0 +1,79 @@
+// Token-budgeted prompt assembly. Counts are estimates (about four
+// characters per token for English text) since the models we route to use
+// different tokenizers; budgets keep a safety margin for that reason.
+
+/** Assumed window when the catalog doesn't know the model's context length */
+const DEFAULT_CONTEXT_TOKENS = 32768;
+/** Share of the window left unused to absorb estimation error */
+const SAFETY_MARGIN = 0.15;
+/** Never spend more than this on input, even with a huge window */
+const MAX_INPUT_TOKENS = 48000;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Cuts `text` down to roughly `maxTokens`, preferring a paragraph or sentence break */
+export function fitToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  const maxChars = Math.max(0, maxTokens * 4 - 20);
+  const cut = text.slice(0, maxChars);
+  const boundary = Math.max(cut.lastIndexOf("\n\n"), cut.lastIndexOf(". "));
+  const trimmed = boundary > maxChars * 0.6 ? cut.slice(0, boundary + 1) : cut;
+  return `${trimmed.trimEnd()}\n[...truncated]`;
+}
+
+export interface ContextBudget {
+  task: number;
+  attachments: number;
+  search: number;
+  rounds: number;
+}
+
+/**
+ * Splits the input side of the window (context length minus the reply and
+ * system prompt reserve) between the parts of a convergent prompt.
+ */
+export function planContextBudget(contextLength: number, reservedTokens: number): ContextBudget {
+  const window = contextLength > 0 ? contextLength : DEFAULT_CONTEXT_TOKENS;
+  const input = Math.min(
+    MAX_INPUT_TOKENS,
+    Math.max(2048, Math.floor(window * (1 - SAFETY_MARGIN)) - reservedTokens)
+  );
+  return {
+    task: Math.floor(input * 0.15),
+    attachments: Math.floor(input * 0.3),
+    search: Math.floor(input * 0.15),
+    rounds: Math.floor(input * 0.4),
+  };
+}
+
+/**
+ * Keeps the newest rounds verbatim within `budget` and folds older ones into
+ * a running summary via `summarize`, so nothing is silently dropped. The
+ * latest round is always kept whole.
+ */
+export async function compactRounds(params: {
+  rounds: string[];
+  summary: string;
+  budget: number;
+  summarize: (previousSummary: string, rounds: string[], maxTokens: number) => Promise<string>;
+}): Promise<{ summary: string; recent: string[] }> {
+  const summaryBudget = Math.floor(params.budget * 0.3);
+  const total = (summary: string, rounds: string[]) =>
+    estimateTokens(summary) + rounds.reduce((sum, round) => sum + estimateTokens(round), 0);
+
+  if (total(params.summary, params.rounds) <= params.budget) {
+    return { summary: params.summary, recent: params.rounds };
+  }
+
+  const recent = [...params.rounds];
+  const folded: string[] = [];
+  while (recent.length > 1 && total("", recent) > params.budget - summaryBudget) {
+    folded.push(recent.shift()!);
+  }
+  if (folded.length === 0) return { summary: params.summary, recent };
+
+  const summary = await params.summarize(params.summary, folded, summaryBudget);
+  return { summary: fitToTokens(summary, summaryBudget), recent };
+}
@@ -0,0 +1,83 @@
+import { ChatMessage, CompletionResult, LLMBackend } from "./types";
+import { estimateTokens } from "./context";
+import { priceUsage } from "./usage";
+
+export interface FakeScriptEntry {
+  /** Only answer when the last user message contains this text */
+  match?: string;
+  content: string;
+  reasoning?: string;
+}
+
+export type FakeScript = (string | FakeScriptEntry)[];
+
+function textOf(message: ChatMessage): string {
+  return typeof message.content === "string"
+    ? message.content
+    : message.content.map((part) => (part.type === "text" ? part.text : "")).join("");
+}
+
+function lastUserText(messages: ChatMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return textOf(messages[i]);
+  }
+  return "";
+}
+
+
+/**
+ * Deterministic backend for offline runs. Entries with a `match` answer any
+ * request whose last user message contains it; the rest are served in order
+ * and wrap around. With an empty script the user message is echoed back.
+ */
+export function createFakeBackend(script: FakeScript = []): LLMBackend {
+  const entries: FakeScriptEntry[] = script.map((entry) =>
+    typeof entry === "string" ? { content: entry } : entry
+  );
+  const sequential = entries.filter((entry) => !entry.match);
+  let cursor = 0;
+
+  const respond = (messages: ChatMessage[], model: string): CompletionResult => {
+    const userText = lastUserText(messages);
+    const matched = entries.find((entry) => entry.match && userText.includes(entry.match));
+    const entry =
+      matched ??
+      (sequential.length > 0 ? sequential[cursor++ % sequential.length] : undefined);
+
+    const content = entry?.content ?? `Echo: ${userText}`;
+    const reasoning = entry?.reasoning ?? "";
+    return {
+      content,
+      reasoning,
+      model,
+      usage: priceUsage(model, {
+        promptTokens: estimateTokens(messages.map((m) => textOf(m)).join("\n")),
+        completionTokens: estimateTokens(content + reasoning),
+        reasoningTokens: estimateTokens(reasoning),
+      }),
+    };
+  };
+
+  return {
+    name: "Fake",
+    requiresApiKey: false,
+
+    async complete(request) {
+      request.signal?.throwIfAborted();
+      return respond(request.messages, request.model);
+    },
+
+    async *stream(request) {
+      const result = respond(request.messages, request.model);
+      for (const word of result.reasoning.match(/\S+\s*/g) || []) {
+        request.signal?.throwIfAborted();
+        yield { type: "reasoning", text: word };
+      }
+      for (const word of result.content.match(/\S+\s*/g) || []) {
+        request.signal?.throwIfAborted();
+        yield { type: "content", text: word };
+      }
+      if (result.usage) yield { type: "usage", usage: result.usage };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { complete, stream } from "./provider";
+import { CompletionRequest, CompletionResult, ProviderError, StreamChunk } from "./types";
+
+export interface ModelSwitch {
+  from: string;
+  to: string;
+  /** Upstream status that triggered the switch */
+  status: number;
+}
+
+/** Rate limits, exhausted credits and upstream outages are worth another model */
+export function isFallbackError(error: unknown): error is ProviderError {
+  return (
+    error instanceof ProviderError &&
+    (error.status === 429 || error.status === 402 || error.status >= 500)
+  );
+}
+
+function modelChain(primary: string, fallbacks: string[]): string[] {
+  return [primary, ...fallbacks].filter((model, i, all) => model && all.indexOf(model) === i);
+}
+
+/**
+ * Tries `request.model`, then each fallback in order. The returned `model`
+ * is the id that actually answered.
+ */
+export async function completeWithFallback(
+  request: CompletionRequest,
+  fallbackModels: string[],
+  onSwitch?: (event: ModelSwitch) => void
+): Promise<CompletionResult> {
+  const models = modelChain(request.model, fallbackModels);
+
+  for (let i = 0; ; i++) {
+    try {
+      const result = await complete({ ...request, model: models[i] });
+      return { ...result, model: models[i] };
+    } catch (error) {
+      const next = models[i + 1];
+      if (!next || !isFallbackError(error)) throw error;
+      console.warn(`[llm] ${models[i]} failed with ${error.status}, switching to ${next}`);
+      onSwitch?.({ from: models[i], to: next, status: error.status });
+    }
+  }
+}
+
+/**
+ * Streaming counterpart of completeWithFallback. A model is only abandoned
+ * before its first chunk; a stream that fails midway is not restarted.
+ */
+export async function* streamWithFallback(
+  request: CompletionRequest,
+  fallbackModels: string[],
+  onSwitch?: (event: ModelSwitch) => void
+): AsyncGenerator<StreamChunk> {
+  const models = modelChain(request.model, fallbackModels);
+
+  for (let i = 0; ; i++) {
+    let started = false;
+    try {
+      for await (const chunk of stream({ ...request, model: models[i] })) {
+        started = true;
+        yield chunk;
+      }
+      return;
+    } catch (error) {
+      const next = models[i + 1];
+      if (started || !next || !isFallbackError(error)) throw error;
+      console.warn(`[llm] ${models[i]} failed with ${error.status}, switching to ${next}`);
+      onSwitch?.({ from: models[i], to: next, status: error.status });
+    }
+  }
+}
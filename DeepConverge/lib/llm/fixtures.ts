@@ -0,0 +1,146 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMBackend,
+  ProviderError,
+  StreamChunk,
+} from "./types";
+
+// Record/replay fixtures for offline, reproducible runs:
+//   LLM_FIXTURES=record  call the configured backend and save every response
+//   LLM_FIXTURES=replay  serve saved responses only; a missing fixture is an error
+//   LLM_FIXTURES_DIR     where fixtures live (default .llm-fixtures)
+//
+// Each fixture is one JSON file named after a hash of the request, so the
+// same prompt always maps to the same file regardless of API key or title.
+
+export type FixtureMode = "record" | "replay";
+
+interface FixtureFile<T> {
+  kind: string;
+  request: unknown;
+  response: T;
+}
+
+const DEFAULT_FIXTURES_DIR = ".llm-fixtures";
+
+export function getFixtureMode(): FixtureMode | null {
+  const mode = (process.env.LLM_FIXTURES || "").toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : null;
+}
+
+function fixturesDir(): string {
+  return path.resolve(process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+}
+
+/** Only the fields that change the model's output take part in the hash */
+function hashableRequest(request: CompletionRequest) {
+  return {
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+    reasoning: request.reasoning ?? null,
+    responseFormat: request.responseFormat ?? null,
+    // Only present when set, so fixtures recorded before seeds existed still match
+    ...(request.seed !== undefined ? { seed: request.seed } : {}),
+  };
+}
+
+export function fixtureHash(kind: string, key: unknown): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ kind, key }))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function fixturePath(kind: string, hash: string): string {
+  return path.join(fixturesDir(), `${kind}-${hash}.json`);
+}
+
+async function readFixture<T>(kind: string, key: unknown): Promise<T> {
+  const hash = fixtureHash(kind, key);
+  try {
+    const file = JSON.parse(await readFile(fixturePath(kind, hash), "utf8")) as FixtureFile<T>;
+    return file.response;
+  } catch {
+    throw new ProviderError("Replay", 404, `no ${kind} fixture for request ${hash}`);
+  }
+}
+
+async function writeFixture<T>(kind: string, key: unknown, response: T): Promise<void> {
+  const hash = fixtureHash(kind, key);
+  const file: FixtureFile<T> = { kind, request: key, response };
+  try {
+    await mkdir(fixturesDir(), { recursive: true });
+    await writeFile(fixturePath(kind, hash), JSON.stringify(file, null, 2));
+  } catch (error) {
+    console.warn(`[fixtures] could not save ${kind} fixture ${hash}:`, error);
+  }
+}
+
+/**
+ * Runs `produce` through the fixture store: saved in record mode, read back
+ * in replay mode, passed straight through otherwise. Used for web searches
+ * and other non-model inputs that must be stable for replays to line up.
+ */
+export async function withFixture<T>(
+  kind: string,
+  key: unknown,
+  produce: () => Promise<T>
+): Promise<T> {
+  const mode = getFixtureMode();
+  if (mode === "replay") return readFixture<T>(kind, key);
+
+  const response = await produce();
+  if (mode === "record") await writeFixture(kind, key, response);
+  return response;
+}
+
+/** Wraps a live backend and saves each finished response to disk */
+export function createRecordingBackend(inner: LLMBackend): LLMBackend {
+  return {
+    name: `${inner.name} (recording)`,
+    requiresApiKey: inner.requiresApiKey,
+
+    async complete(request) {
+      const result = await inner.complete(request);
+      await writeFixture("complete", hashableRequest(request), result);
+      return result;
+    },
+
+    async *stream(request) {
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of inner.stream(request)) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      // Only complete streams are saved; an aborted one would replay truncated
+      await writeFixture("stream", hashableRequest(request), chunks);
+    },
+  };
+}
+
+/** Serves recorded responses without touching the network */
+export function createReplayBackend(): LLMBackend {
+  return {
+    name: "Replay",
+    requiresApiKey: false,
+
+    async complete(request) {
+      request.signal?.throwIfAborted();
+      return readFixture<CompletionResult>("complete", hashableRequest(request));
+    },
+
+    async *stream(request) {
+      const chunks = await readFixture<StreamChunk[]>("stream", hashableRequest(request));
+      for (const chunk of chunks) {
+        request.signal?.throwIfAborted();
+        yield chunk;
+      }
+    },
+  };
+}
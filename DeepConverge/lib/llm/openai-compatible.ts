@@ -0,0 +1,214 @@
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMBackend,
+  ProviderError,
+  StreamChunk,
+} from "./types";
+import { createReasoningParser } from "./reasoning";
+import { parseUsageBlock } from "./usage";
+
+interface OpenAICompatibleOptions {
+  name: string;
+  baseUrl: string;
+  requiresApiKey: boolean;
+  /** Replaces every requested model id (a local server usually serves one model) */
+  modelOverride?: string;
+  /** Forward the OpenRouter-only `reasoning` field */
+  supportsReasoning?: boolean;
+  /** Ask OpenRouter to report cost alongside token counts */
+  supportsUsageAccounting?: boolean;
+  /** Forward `response_format`; models without support ignore it on OpenRouter */
+  supportsStructuredOutput?: boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Yields every JSON payload from an SSE body until `[DONE]` or EOF */
+export async function* readSsePayloads(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<Record<string, unknown>> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parseLine = (line: string): Record<string, unknown> | "done" | null => {
+    const trimmedLine = line.trimEnd();
+    if (!trimmedLine.startsWith("data:")) return null;
+    const data = trimmedLine.slice(5).trimStart();
+    if (!data) return null;
+    if (data === "[DONE]") return "done";
+    try {
+      const parsed = JSON.parse(data);
+      return isRecord(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const payload = parseLine(line);
+        if (payload === "done") return;
+        if (payload) yield payload;
+      }
+    }
+
+    buffer += decoder.decode();
+    for (const line of buffer.split("\n")) {
+      const payload = parseLine(line);
+      if (payload === "done") return;
+      if (payload) yield payload;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function createOpenAICompatibleBackend(options: OpenAICompatibleOptions): LLMBackend {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const modelFor = (request: CompletionRequest) => options.modelOverride || request.model;
+
+  const buildBody = (request: CompletionRequest, stream: boolean) => {
+    const body: Record<string, unknown> = {
+      model: modelFor(request),
+      messages: request.messages,
+      stream,
+    };
+    // Token counts only arrive on the final chunk when explicitly requested
+    if (stream) body.stream_options = { include_usage: true };
+    if (options.supportsUsageAccounting) body.usage = { include: true };
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.maxTokens !== undefined) body.max_tokens = request.maxTokens;
+    if (request.seed !== undefined) body.seed = request.seed;
+    if (request.reasoning && options.supportsReasoning) body.reasoning = request.reasoning;
+    if (request.responseFormat && options.supportsStructuredOutput) {
+      body.response_format = request.responseFormat;
+    }
+    return body;
+  };
+
+  const post = async (request: CompletionRequest, stream: boolean): Promise<Response> => {
+    const maxRetries = request.maxRetries ?? 0;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "HTTP-Referer": process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
+        "X-Title": request.title || "DeepConverge AI",
+      };
+      if (request.apiKey) headers.Authorization = `Bearer ${request.apiKey}`;
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        cache: "no-store",
+        headers,
+        body: JSON.stringify(buildBody(request, stream)),
+        signal: request.signal,
+      });
+
+      if (response.status === 429 && attempt < maxRetries) {
+        let waitMs = (attempt + 1) * 5000;
+        try {
+          const errorBody = await response.json();
+          const resetTimestamp = errorBody?.error?.metadata?.headers?.["X-RateLimit-Reset"];
+          if (resetTimestamp) {
+            const resetMs = Number(resetTimestamp) - Date.now();
+            if (resetMs > 0 && resetMs < 120000) {
+              waitMs = resetMs + 1000;
+            }
+          }
+        } catch {
+          // Use default backoff
+        }
+        console.log(
+          `[llm] ${options.name} rate limited (attempt ${attempt + 1}/${maxRetries}), waiting ${Math.round(waitMs / 1000)}s...`
+        );
+        await sleep(waitMs, request.signal);
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new ProviderError(options.name, response.status, await response.text());
+      }
+      return response;
+    }
+
+    throw new ProviderError(options.name, 429, "Max retries exceeded for rate limit");
+  };
+
+  return {
+    name: options.name,
+    requiresApiKey: options.requiresApiKey,
+
+    async complete(request) {
+      const response = await post(request, false);
+      const json: unknown = await response.json();
+      const choices = isRecord(json) && Array.isArray(json.choices) ? json.choices : [];
+      const message = isRecord(choices[0]) && isRecord(choices[0].message) ? choices[0].message : {};
+      const parser = createReasoningParser();
+      let content = "";
+      let reasoning = "";
+      for (const chunk of [...parser.push(message), ...parser.flush()]) {
+        if (chunk.type === "reasoning") reasoning += chunk.text;
+        else content += chunk.text;
+      }
+      return {
+        content: content.trim(),
+        reasoning: reasoning.trim(),
+        model: isRecord(json) && typeof json.model === "string" ? json.model : request.model,
+        usage: parseUsageBlock(modelFor(request), isRecord(json) ? json.usage : undefined) ?? undefined,
+      } satisfies CompletionResult;
+    },
+
+    async *stream(request) {
+      const response = await post(request, true);
+      if (!response.body) throw new Error("No response body");
+
+      const parser = createReasoningParser();
+      for await (const payload of readSsePayloads(response.body)) {
+        const choices = Array.isArray(payload.choices) ? payload.choices : [];
+        const choice = isRecord(choices[0]) ? choices[0] : undefined;
+
+        // Some servers send a whole `message` or a bare `text` instead of a delta
+        const delta =
+          choice && isRecord(choice.delta)
+            ? choice.delta
+            : choice && isRecord(choice.message)
+            ? choice.message
+            : { text: choice?.text };
+        yield* parser.push(delta);
+
+        const usage = parseUsageBlock(modelFor(request), payload.usage);
+        if (usage) yield { type: "usage", usage } satisfies StreamChunk;
+      }
+      yield* parser.flush();
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { readFileSync } from "node:fs";
+import { createFakeBackend, FakeScript } from "./fake";
+import { createRecordingBackend, createReplayBackend, getFixtureMode } from "./fixtures";
+import { createOpenAICompatibleBackend } from "./openai-compatible";
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMBackend,
+  ProviderError,
+  StreamChunk,
+} from "./types";
+
+// Backend selection is server-side config, never per request:
+//   LLM_PROVIDER=openrouter (default) | local | fake
+//   LLM_BASE_URL    OpenAI-compatible endpoint for `local`
+//                   (llama.cpp: http://localhost:8080/v1, Ollama: http://localhost:11434/v1)
+//   LLM_LOCAL_MODEL model id served by the local endpoint
+//   LLM_FAKE_SCRIPT path to a JSON FakeScript for `fake`
+//   LLM_FIXTURES    record | replay, see ./fixtures
+//   LLM_WEB_RESEARCH on | off; web searches (Wikipedia, DuckDuckGo) default
+//                   to off for `local` and `fake`, which are meant to run offline
+
+const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+let cachedBackend: LLMBackend | null = null;
+
+function loadFakeScript(path: string | undefined): FakeScript {
+  if (!path) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("[llm] could not read LLM_FAKE_SCRIPT:", error);
+    return [];
+  }
+}
+
+function createLiveBackend(): LLMBackend {
+  const provider = (process.env.LLM_PROVIDER || "openrouter").toLowerCase();
+
+  if (provider === "fake") {
+    return createFakeBackend(loadFakeScript(process.env.LLM_FAKE_SCRIPT));
+  }
+
+  if (provider === "local") {
+    return createOpenAICompatibleBackend({
+      name: "Local model",
+      baseUrl: process.env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+      requiresApiKey: false,
+      modelOverride: process.env.LLM_LOCAL_MODEL,
+    });
+  }
+
+  return createOpenAICompatibleBackend({
+    name: "OpenRouter",
+    baseUrl: OPENROUTER_BASE_URL,
+    requiresApiKey: true,
+    supportsReasoning: true,
+    supportsUsageAccounting: true,
+    supportsStructuredOutput: true,
+  });
+}
+
+function createBackendFromEnv(): LLMBackend {
+  const fixtureMode = getFixtureMode();
+  if (fixtureMode === "replay") return createReplayBackend();
+
+  const backend = createLiveBackend();
+  return fixtureMode === "record" ? createRecordingBackend(backend) : backend;
+}
+
+export function getBackend(): LLMBackend {
+  if (!cachedBackend) {
+    cachedBackend = createBackendFromEnv();
+    console.log(`[llm] using ${cachedBackend.name} backend`);
+  }
+  return cachedBackend;
+}
+
+/** Whether routes must reject requests that arrive without a user key */
+export function requiresApiKey(): boolean {
+  return getBackend().requiresApiKey;
+}
+
+/** Whether routes may search the web; replays read their searches from fixtures */
+export function webResearchEnabled(): boolean {
+  const flag = (process.env.LLM_WEB_RESEARCH || "").toLowerCase();
+  if (flag === "on" || flag === "off") return flag === "on";
+  return getFixtureMode() === "replay" || getBackend().requiresApiKey;
+}
+
+export function complete(request: CompletionRequest): Promise<CompletionResult> {
+  return getBackend().complete(request);
+}
+
+export function stream(request: CompletionRequest): AsyncGenerator<StreamChunk> {
+  return getBackend().stream(request);
+}
+
+/** Rate limit, exhausted credits or quota — the user can't fix it by retrying now */
+export function isUsageLimitError(error: unknown): boolean {
+  if (!(error instanceof ProviderError)) return false;
+  const body = error.body.toLowerCase();
+  return (
+    error.status === 429 ||
+    error.status === 402 ||
+    body.includes("credits") ||
+    body.includes("quota") ||
+    body.includes("rate limit")
+  );
+}
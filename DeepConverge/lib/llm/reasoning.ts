@@ -0,0 +1,136 @@
+import { StreamChunk } from "./types";
+
+// One incremental parser for every way a model hands back its reasoning:
+//   - native `reasoning` (OpenRouter) or `reasoning_content` (llama.cpp,
+//     DeepSeek) strings on the delta
+//   - `reasoning_details` arrays of text/summary blocks (OpenRouter sends
+//     these alongside `reasoning`, so they are only read when it is absent)
+//   - inline <think>…</think> blocks in the content, with the tags free to
+//     arrive split across any number of chunks
+//
+// Some servers drop the opening <think>, so a bare </think> turns the text
+// before it into reasoning. Content is streamed as it settles, though: text
+// already sent in an earlier push stays content. Holding it all back until
+// a tag shows up would stall every answer that never has one.
+
+export type TextChunk = Extract<StreamChunk, { type: "reasoning" | "content" }>;
+
+export interface ReasoningParser {
+  /** Feeds one streamed delta (or a whole non-streamed message); returns the text it settled */
+  push(delta: Record<string, unknown>): TextChunk[];
+  /** Releases text held back as a possible partial tag; call once the stream ends */
+  flush(): TextChunk[];
+}
+
+const OPEN_TAG = "<think>";
+const CLOSE_TAG = "</think>";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+export function extractText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map((part) => extractText(part)).join("");
+  if (isRecord(value)) {
+    if (typeof value.text === "string") return value.text;
+    if (typeof value.content === "string") return value.content;
+    if (Array.isArray(value.parts)) return value.parts.map((part) => extractText(part)).join("");
+  }
+  return "";
+}
+
+/** Readable text of a `reasoning_details` array; encrypted blocks have none */
+function detailsText(details: unknown): string {
+  if (!Array.isArray(details)) return "";
+  return details
+    .map((detail) => {
+      if (!isRecord(detail)) return "";
+      if (detail.type === "reasoning.summary" && typeof detail.summary === "string") return detail.summary;
+      return typeof detail.text === "string" ? detail.text : "";
+    })
+    .join("");
+}
+
+/** Length of the longest suffix of `text` that could be the start of `tag` */
+function partialTagLength(text: string, tag: string): number {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
+
+export function createReasoningParser(): ReasoningParser {
+  let inThink = false;
+  // Tail of the content that may turn out to be a tag once more arrives
+  let held = "";
+  // Whether any visible answer has gone out yet
+  let answered = false;
+
+  const emit = (out: TextChunk[], type: TextChunk["type"], text: string) => {
+    if (!text) return;
+    if (type === "content") answered ||= text.trim() !== "";
+    const last = out[out.length - 1];
+    if (last?.type === type) last.text += text;
+    else out.push({ type, text });
+  };
+
+  const splitContent = (text: string, out: TextChunk[]) => {
+    let rest = held + text;
+    held = "";
+
+    while (rest) {
+      const tag = inThink ? CLOSE_TAG : OPEN_TAG;
+      const at = rest.indexOf(tag);
+      // A stray close tag means the server dropped the opening one, so what
+      // precedes it is reasoning unless the answer has already started
+      const stray = inThink ? -1 : rest.indexOf(CLOSE_TAG);
+
+      if (stray !== -1 && (at === -1 || stray < at)) {
+        emit(out, answered ? "content" : "reasoning", rest.slice(0, stray));
+        rest = rest.slice(stray + CLOSE_TAG.length);
+        continue;
+      }
+      if (at !== -1) {
+        emit(out, inThink ? "reasoning" : "content", rest.slice(0, at));
+        rest = rest.slice(at + tag.length);
+        inThink = !inThink;
+        continue;
+      }
+
+      const keep = Math.max(partialTagLength(rest, tag), inThink ? 0 : partialTagLength(rest, CLOSE_TAG));
+      // Before the answer starts, what precedes a possible </think> waits with it
+      if (!inThink && !answered && keep > 0) {
+        held = rest;
+        break;
+      }
+      emit(out, inThink ? "reasoning" : "content", rest.slice(0, rest.length - keep));
+      held = rest.slice(rest.length - keep);
+      break;
+    }
+  };
+
+  return {
+    push(delta) {
+      const out: TextChunk[] = [];
+      const reasoning =
+        extractText(delta.reasoning) ||
+        extractText(delta.reasoning_content) ||
+        detailsText(delta.reasoning_details);
+      emit(out, "reasoning", reasoning);
+
+      // Some servers send `text` instead of `content`
+      const content = extractText(delta.content) || extractText(delta.text);
+      if (content) splitContent(content, out);
+      return out;
+    },
+
+    flush() {
+      const out: TextChunk[] = [];
+      // An unclosed <think> block stays reasoning; a cut-off tag is just text
+      emit(out, inThink ? "reasoning" : "content", held);
+      held = "";
+      return out;
+    },
+  };
+}
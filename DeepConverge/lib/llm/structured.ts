@@ -0,0 +1,140 @@
+import { ChatMessage, ResponseFormat } from "./types";
+
+/** The subset of JSON Schema we send upstream and validate locally */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export function jsonSchemaFormat(name: string, schema: JsonSchema): ResponseFormat {
+  return { type: "json_schema", json_schema: { name, strict: true, schema } };
+}
+
+/** Returns one message per violation; an empty list means `value` is valid */
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (!(key in record)) errors.push(`${path}.${key} is required`);
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const childSchema = schema.properties?.[key];
+        if (childSchema) {
+          errors.push(...validateJson(child, childSchema, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        }
+      }
+      return errors;
+    }
+    case "array":
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      return schema.items
+        ? value.flatMap((item, i) => validateJson(item, schema.items!, `${path}[${i}]`))
+        : [];
+    case "string":
+      if (typeof value !== "string") return [`${path} must be a string`];
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") return [`${path} must be a boolean`];
+      break;
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) return [`${path} must be a number`];
+      if (schema.type === "integer" && !Number.isInteger(value)) return [`${path} must be an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} must be >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} must be <= ${schema.maximum}`];
+      break;
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [`${path} must be one of ${schema.enum.join(", ")}`];
+  }
+  return [];
+}
+
+/**
+ * Pulls a JSON value out of a model reply: the whole reply, a ```json fence,
+ * or the outermost {...} span, in that order. Undefined when none parse.
+ */
+export function extractJson(raw: string): unknown {
+  const candidates = [
+    raw.trim(),
+    raw.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1],
+    raw.match(/\{[\s\S]*\}/)?.[0],
+  ];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+export class StructuredOutputError extends Error {
+  /** Every reply we got, with what was wrong with it */
+  attempts: { raw: string; errors: string[] }[];
+
+  constructor(name: string, attempts: { raw: string; errors: string[] }[]) {
+    const last = attempts[attempts.length - 1];
+    super(`${name}: no valid output after ${attempts.length} attempt(s): ${last?.errors.join("; ") ?? "no reply"}`);
+    this.name = "StructuredOutputError";
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Asks for schema-conforming JSON and re-asks with the validation errors
+ * until the reply is valid or `maxRepairs` extra attempts are used up.
+ * `ask` performs the actual call so callers keep their own metering,
+ * fallback and abort handling.
+ */
+export async function completeStructured<T>(params: {
+  name: string;
+  schema: JsonSchema;
+  messages: ChatMessage[];
+  ask: (messages: ChatMessage[], responseFormat: ResponseFormat) => Promise<string>;
+  maxRepairs?: number;
+}): Promise<{ value: T; repairs: number }> {
+  const responseFormat = jsonSchemaFormat(params.name, params.schema);
+  const maxRepairs = params.maxRepairs ?? 2;
+  const attempts: { raw: string; errors: string[] }[] = [];
+  let messages = params.messages;
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const raw = await params.ask(messages, responseFormat);
+    const parsed = extractJson(raw);
+    const errors =
+      parsed === undefined ? ["reply is not valid JSON"] : validateJson(parsed, params.schema);
+
+    if (errors.length === 0) {
+      return { value: parsed as T, repairs: attempt };
+    }
+
+    attempts.push({ raw, errors });
+    messages = [
+      ...params.messages,
+      { role: "assistant", content: raw },
+      {
+        role: "user",
+        content: `Your reply did not match the required JSON schema:\n- ${errors.slice(0, 8).join("\n- ")}\n\nReply again with only the corrected JSON object, no prose or code fences.`,
+      },
+    ];
+  }
+
+  throw new StructuredOutputError(params.name, attempts);
+}
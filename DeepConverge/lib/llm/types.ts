@@ -0,0 +1,82 @@
+export type ChatRole = "system" | "user" | "assistant";
+
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | ChatContentPart[];
+}
+
+export type ReasoningEffort = "none" | "low" | "medium" | "high";
+
+export interface ReasoningOptions {
+  effort?: ReasoningEffort;
+  exclude?: boolean;
+}
+
+/** OpenAI-style structured output; see ./structured */
+export interface ResponseFormat {
+  type: "json_schema";
+  json_schema: { name: string; strict: boolean; schema: object };
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  apiKey?: string;
+  temperature?: number;
+  maxTokens?: number;
+  reasoning?: ReasoningOptions;
+  responseFormat?: ResponseFormat;
+  /** Sent as X-Title so calls are distinguishable in the OpenRouter dashboard */
+  title?: string;
+  /** Sampling seed; models that honour it repeat their output for the same seed */
+  seed?: number;
+  /** Extra attempts after a 429 before giving up */
+  maxRetries?: number;
+  /** Cancels the upstream call, including any rate-limit backoff */
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Included in completionTokens; reported separately for display */
+  reasoningTokens: number;
+  /** USD, priced with ./usage */
+  cost: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  reasoning: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export type StreamChunk =
+  | { type: "reasoning"; text: string }
+  | { type: "content"; text: string }
+  | { type: "usage"; usage: TokenUsage };
+
+export interface LLMBackend {
+  name: string;
+  /** Local servers and the fake backend run without a user key */
+  requiresApiKey: boolean;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncGenerator<StreamChunk>;
+}
+
+export class ProviderError extends Error {
+  status: number;
+  body: string;
+
+  constructor(backend: string, status: number, body: string) {
+    super(`${backend} API error: ${status} - ${body}`);
+    this.name = "ProviderError";
+    this.status = status;
+    this.body = body;
+  }
+}
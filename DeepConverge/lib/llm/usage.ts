@@ -0,0 +1,109 @@
+import { BUILTIN_MODELS } from "../models";
+import { TokenUsage } from "./types";
+
+/** USD per million tokens. Reasoning tokens are billed as completion tokens. */
+interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = Object.fromEntries(
+  BUILTIN_MODELS.map((model) => [model.id, model.pricing])
+);
+
+/** Filled in from the OpenRouter catalog, see ./catalog */
+export function setModelPrice(model: string, price: ModelPrice) {
+  MODEL_PRICES[model] = price;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, reasoningTokens: 0, cost: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+    cost: a.cost + b.cost,
+  };
+}
+
+/**
+ * Prices a call from the table. Unlisted `:free` variants cost nothing; any
+ * other unknown model falls back to the cost the provider reported, if any.
+ */
+export function priceUsage(
+  model: string,
+  tokens: Omit<TokenUsage, "cost">,
+  reportedCost = 0
+): TokenUsage {
+  const price = MODEL_PRICES[model] ?? (model.endsWith(":free") ? { prompt: 0, completion: 0 } : null);
+  const cost = price
+    ? (tokens.promptTokens * price.prompt + tokens.completionTokens * price.completion) / 1_000_000
+    : reportedCost;
+  return { ...tokens, cost };
+}
+
+/** Reads an OpenAI-style `usage` block; null when it is missing or empty */
+export function parseUsageBlock(model: string, raw: unknown): TokenUsage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const usage = raw as Record<string, unknown>;
+  const details = (usage.completion_tokens_details ?? {}) as Record<string, unknown>;
+  const num = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : 0);
+
+  const tokens = {
+    promptTokens: num(usage.prompt_tokens),
+    completionTokens: num(usage.completion_tokens),
+    reasoningTokens: num(details.reasoning_tokens),
+  };
+  if (tokens.promptTokens === 0 && tokens.completionTokens === 0) return null;
+  return priceUsage(model, tokens, num(usage.cost));
+}
+
+/** Coerces a stored `metadata.usage` value back into TokenUsage */
+export function readUsage(value: unknown): TokenUsage | null {
+  if (!value || typeof value !== "object") return null;
+  const usage = value as Record<string, unknown>;
+  const num = (field: unknown) => (typeof field === "number" && Number.isFinite(field) ? field : 0);
+  return {
+    promptTokens: num(usage.promptTokens),
+    completionTokens: num(usage.completionTokens),
+    reasoningTokens: num(usage.reasoningTokens),
+    cost: num(usage.cost),
+  };
+}
+
+export interface UsageMeter {
+  /**
+   * Adds one upstream call; `label` says which step made it and `agent` who
+   * it was made for, when that isn't the step itself (a fact check of a turn)
+   */
+  record(usage: TokenUsage | undefined, label: string, agent?: string): void;
+  total(): TokenUsage;
+}
+
+/** `initial` carries a total over from an earlier request, e.g. a resumed debate */
+export function createUsageMeter(
+  onRecord?: (usage: TokenUsage, total: TokenUsage, label: string, agent: string) => void,
+  initial: TokenUsage = emptyUsage()
+): UsageMeter {
+  let total = initial;
+  return {
+    record(usage, label, agent = label) {
+      if (!usage) return;
+      total = addUsage(total, usage);
+      onRecord?.(usage, total, label, agent);
+    },
+    total: () => total,
+  };
+}
+
+/** Sidebar-sized summary, e.g. "$0.0042 · 12.3k tokens" or "Free · 850 tokens" */
+export function formatUsage(usage: TokenUsage): string {
+  const tokens = usage.promptTokens + usage.completionTokens;
+  const tokenText = tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k tokens` : `${tokens} tokens`;
+  const costText =
+    usage.cost === 0 ? "Free" : usage.cost < 0.0001 ? "<$0.0001" : `$${usage.cost.toFixed(4)}`;
+  return `${costText} · ${tokenText}`;
+}
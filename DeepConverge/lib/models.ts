@@ -0,0 +1,68 @@
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextLength: number;
+  /** Accepts the OpenRouter `reasoning` parameter */
+  reasoning: boolean;
+  /** Accepts image input */
+  vision: boolean;
+  /** Accepts `response_format` JSON schemas */
+  structuredOutput: boolean;
+  free: boolean;
+  /** USD per million tokens */
+  pricing: { prompt: number; completion: number };
+}
+
+export const DEFAULT_CHAT_MODEL = "nvidia/nemotron-3-nano-30b-a3b:free";
+export const DEFAULT_DEBATE_MODEL = "nvidia/nemotron-nano-9b-v2:free";
+export const DEFAULT_VISION_MODEL = "nvidia/nemotron-nano-12b-v2-vl:free";
+
+/** Served when the OpenRouter catalog can't be fetched, and by the offline backends */
+export const BUILTIN_MODELS: ModelInfo[] = [
+  {
+    id: DEFAULT_CHAT_MODEL,
+    name: "NVIDIA: Nemotron 3 Nano 30B A3B (free)",
+    contextLength: 131072,
+    reasoning: true,
+    vision: false,
+    structuredOutput: true,
+    free: true,
+    pricing: { prompt: 0, completion: 0 },
+  },
+  {
+    id: DEFAULT_DEBATE_MODEL,
+    name: "NVIDIA: Nemotron Nano 9B V2 (free)",
+    contextLength: 131072,
+    reasoning: true,
+    vision: false,
+    structuredOutput: true,
+    free: true,
+    pricing: { prompt: 0, completion: 0 },
+  },
+  {
+    id: DEFAULT_VISION_MODEL,
+    name: "NVIDIA: Nemotron Nano 12B 2 VL (free)",
+    contextLength: 131072,
+    reasoning: false,
+    vision: true,
+    structuredOutput: false,
+    free: true,
+    pricing: { prompt: 0, completion: 0 },
+  },
+];
+
+/** Drops the "Provider: " prefix OpenRouter puts on display names */
+export function shortModelName(model: ModelInfo | undefined, fallbackId: string): string {
+  if (!model) return fallbackId.split("/").pop() || fallbackId;
+  return model.name.replace(/^[^:]+:\s*/, "");
+}
+
+/** Compact capability summary for pickers, e.g. "free · reasoning · 128k" */
+export function describeModel(model: ModelInfo): string {
+  const tags: string[] = [];
+  if (model.free) tags.push("free");
+  if (model.reasoning) tags.push("reasoning");
+  if (model.vision) tags.push("vision");
+  if (model.contextLength > 0) tags.push(`${Math.round(model.contextLength / 1024)}k`);
+  return tags.join(" · ");
+}
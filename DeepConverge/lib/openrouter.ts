@@ -1,13 +1,7 @@
 import { agents, agentOrder } from "./agents";
 import { AgentRole, StreamChunk } from "./types";
-
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
-const MODEL = "nvidia/nemotron-3-nano-30b-a3b:free";
-
-interface ChatMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
+import { streamWithFallback } from "./llm/fallback";
+import { ChatMessage } from "./llm/types";
 
 export async function* streamAgentResponse(
   agentRole: AgentRole,
@@ -42,76 +36,29 @@ export async function* streamAgentResponse(
     });
   }
 
-  const response = await fetch(OPENROUTER_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
-      "HTTP-Referer": process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
-      "X-Title": "DeepConverge Debate",
-    },
-    body: JSON.stringify({
-      model: MODEL,
+  const chunks = streamWithFallback(
+    {
+      model: agent.model,
       messages,
-      stream: true,
-      temperature: 0.7,
-      max_tokens: 1024,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${error}`);
-  }
-
-  const reader = response.body?.getReader();
-  if (!reader) throw new Error("No response body");
+      apiKey,
+      temperature: agent.temperature,
+      maxTokens: agent.maxTokens,
+      reasoning: agent.reasoningEffort === "none" ? undefined : { effort: agent.reasoningEffort },
+      title: "DeepConverge Debate",
+    },
+    agent.fallbackModels
+  );
 
-  const decoder = new TextDecoder();
-  let buffer = "";
   let fullContent = "";
   let reasoning = "";
 
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() || "";
-
-    for (const line of lines) {
-      if (line.startsWith("data: ")) {
-        const data = line.slice(6);
-        if (data === "[DONE]") {
-          yield { agent: agentRole, content: fullContent, reasoning, done: true };
-          return;
-        }
-
-        try {
-          const parsed = JSON.parse(data);
-          const content = parsed.choices?.[0]?.delta?.content || "";
-
-          if (content) {
-            // Check if this is reasoning content (between <think> tags or similar)
-            if (content.includes("<think>") || reasoning) {
-              reasoning += content;
-              if (content.includes("</think>")) {
-                // Extract just the reasoning part
-                const match = reasoning.match(/<think>([\s\S]*?)<\/think>/);
-                if (match) {
-                  reasoning = match[1].trim();
-                }
-              }
-            } else {
-              fullContent += content;
-              yield { agent: agentRole, content: fullContent, reasoning, done: false };
-            }
-          }
-        } catch {
-          // Skip invalid JSON
-        }
-      }
+  // The provider layer already splits <think> blocks out of the content
+  for await (const chunk of chunks) {
+    if (chunk.type === "reasoning") {
+      reasoning += chunk.text;
+    } else if (chunk.type === "content") {
+      fullContent += chunk.text;
+      yield { agent: agentRole, content: fullContent, reasoning, done: false };
     }
   }
 
@@ -0,0 +1,140 @@
+// Client side of the resumable streams in lib/sse-replay. Reads an SSE
+// response and, when the connection drops before the server's `end` event,
+// reconnects to /api/stream/<id> with Last-Event-ID and carries on from the
+// next event. Aborting the signal cancels generation on the server too.
+
+import { RESUME_HEADER } from "./llm/abort";
+
+/** Add to the request so the server keeps generating through a dropped connection */
+export const RESUME_HEADERS = { [RESUME_HEADER]: "1" };
+
+export interface SseEvent {
+  id?: number;
+  event?: string;
+  data: string;
+}
+
+const MAX_RECONNECTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
+export const parseSseEvents = (buffer: string) => {
+  const normalized = buffer.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
+  const events: SseEvent[] = [];
+  let remaining = normalized;
+
+  let delimiterIndex = remaining.indexOf("\n\n");
+  while (delimiterIndex !== -1) {
+    const rawEvent = remaining.slice(0, delimiterIndex);
+    remaining = remaining.slice(delimiterIndex + 2);
+
+    if (rawEvent.trim()) {
+      const dataLines: string[] = [];
+      let eventType: string | undefined;
+      let id: number | undefined;
+
+      for (const line of rawEvent.split("\n")) {
+        if (!line || line.startsWith(":")) continue;
+        const [field, ...rest] = line.split(":");
+        const value = rest.join(":").trimStart();
+        if (field === "data") dataLines.push(value);
+        if (field === "event") eventType = value;
+        if (field === "id" && Number.isFinite(Number(value))) id = Number(value);
+      }
+
+      if (dataLines.length > 0) {
+        events.push({ id, data: dataLines.join("\n"), event: eventType });
+      }
+    }
+
+    delimiterIndex = remaining.indexOf("\n\n");
+  }
+
+  return { events, remaining };
+};
+
+/** Stops a buffered stream on the server once `signal` aborts */
+export function cancelOnAbort(response: Response, signal: AbortSignal): () => void {
+  const streamId = response.headers.get("X-Stream-Id");
+  if (!streamId) return () => {};
+  const cancel = () => {
+    fetch(`/api/stream/${streamId}`, { method: "DELETE", keepalive: true }).catch(() => {});
+  };
+  signal.addEventListener("abort", cancel, { once: true });
+  return () => signal.removeEventListener("abort", cancel);
+}
+
+/**
+ * Yields the events of `response`, reconnecting up to MAX_RECONNECTS times
+ * in a row. Responses without an `X-Stream-Id` are read once, as before.
+ */
+export async function* readResumableEvents(
+  response: Response,
+  options: {
+    signal: AbortSignal;
+    /** Called before each reconnect attempt, from 1 */
+    onReconnect?: (attempt: number) => void;
+  }
+): AsyncGenerator<SseEvent> {
+  const streamId = response.headers.get("X-Stream-Id");
+  const release = cancelOnAbort(response, options.signal);
+  let current = response;
+  let lastEventId = 0;
+  let attempt = 0;
+
+  try {
+    while (true) {
+      let ended = false;
+      try {
+        const reader = current.body?.getReader();
+        if (!reader) throw new Error("No response body");
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (!ended) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const parsed = parseSseEvents(buffer);
+          buffer = parsed.remaining;
+
+          for (const event of parsed.events) {
+            // A replay may overlap what already arrived
+            if (event.id !== undefined) {
+              if (event.id <= lastEventId) continue;
+              lastEventId = event.id;
+            }
+            if (event.event === "end") {
+              ended = true;
+              break;
+            }
+            attempt = 0;
+            yield event;
+          }
+        }
+      } catch (error) {
+        if (options.signal.aborted || !streamId) throw error;
+      }
+
+      if (ended || !streamId) return;
+      if (attempt >= MAX_RECONNECTS) throw new Error("Lost the connection to the server.");
+      attempt++;
+      options.onReconnect?.(attempt);
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS * attempt));
+
+      try {
+        current = await fetch(`/api/stream/${streamId}`, {
+          headers: { "Last-Event-ID": String(lastEventId) },
+          signal: options.signal,
+        });
+      } catch (error) {
+        if (options.signal.aborted) throw error;
+        // Still offline; the next pass counts another attempt
+        current = new Response(null);
+        continue;
+      }
+      if (current.status === 404) throw new Error("The stream expired before it could be resumed.");
+    }
+  } finally {
+    release();
+  }
+}
@@ -0,0 +1,28 @@
+// Seeds for reproducible debates. A seed fixes the speaking order and goes
+// to the provider as `seed`, so models that honour it repeat their replies.
+
+export const MAX_SEED = 2 ** 31 - 1;
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+export function isValidSeed(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+}
+
+/** A fair coin that always lands the same way for the same seed (one mulberry32 step) */
+export function seededCoin(seed: number): boolean {
+  let t = (seed + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296 < 0.5;
+}
+
+/** A seed typed by the user: undefined when blank, null when it isn't a valid seed */
+export function parseSeedInput(text: string): number | null | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  const seed = Number(trimmed);
+  return isValidSeed(seed) ? seed : null;
+}
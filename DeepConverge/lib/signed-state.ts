@@ -0,0 +1,46 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// State a route hands to the client and expects back unchanged, such as a
+// debate paused for the user's turn. The token is the JSON plus an HMAC, so
+// the server can trust what comes back without keeping it.
+//
+// The key is DEBATE_STATE_SECRET. Without it each server process makes up
+// its own, and a token only resumes on the process that issued it.
+
+let fallbackSecret: Buffer | null = null;
+
+function secret(): Buffer | string {
+  if (process.env.DEBATE_STATE_SECRET) return process.env.DEBATE_STATE_SECRET;
+  if (!fallbackSecret) {
+    console.warn("[signed-state] DEBATE_STATE_SECRET is not set; using a per-process key");
+    fallbackSecret = randomBytes(32);
+  }
+  return fallbackSecret;
+}
+
+function sign(payload: string, context: string): string {
+  return createHmac("sha256", secret()).update(`${context}\n${payload}`).digest("base64url");
+}
+
+/** `context` ties the token to one request, e.g. the debate question; it must match on verify */
+export function signState(value: unknown, context: string): string {
+  const payload = Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${payload}.${sign(payload, context)}`;
+}
+
+/** The signed value, or null when the token was altered, issued for another context or isn't a token */
+export function verifyState(token: unknown, context: string): unknown {
+  if (typeof token !== "string") return null;
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload, context));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
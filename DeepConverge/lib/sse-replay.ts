@@ -0,0 +1,206 @@
+import { randomUUID } from "node:crypto";
+import type { DetachableAbort } from "./llm/abort";
+
+// Resumable SSE for the streaming routes. A route's own stream is read here on
+// the server: every `data:` frame gets the next `id:` and is kept in memory.
+// The response and any reconnect (GET /api/stream/<id> with Last-Event-ID)
+// replay what they missed, then follow live. Buffers live in this process, so
+// a resume has to reach the same server instance.
+//
+// Only clients that send RESUME_HEADER reconnect. For them a dropped
+// connection doesn't stop generation until nobody has listened for
+// RECONNECT_GRACE_MS, or a DELETE arrives. That trades a few seconds of model
+// calls after a closed tab for surviving a network blip. Every other client
+// keeps the old behaviour: upstream calls stop the moment it disconnects.
+
+const RECONNECT_GRACE_MS = 15_000;
+/** How long a finished stream can still be replayed */
+const RETAIN_MS = 5 * 60_000;
+/** Sent last, so clients can tell a finished stream from a dropped connection */
+const END_FRAME = "event: end\ndata: {}\n\n";
+
+interface EventBuffer {
+  /** Superseded snapshots are nulled out; ids keep counting */
+  events: ({ id: number; frame: string } | null)[];
+  /** Snapshot key to its latest index in `events` */
+  snapshots: Map<string, number>;
+  lastId: number;
+  ended: boolean;
+  listeners: Set<ReadableStreamDefaultController<Uint8Array>>;
+  graceTimer: ReturnType<typeof setTimeout> | null;
+  /** How long to wait for a reconnect once the last listener leaves; 0 cancels at once */
+  graceMs: number;
+  cancelSource: () => void;
+}
+
+export interface ResumableOptions {
+  /**
+   * Events that carry the whole text so far (`content`, `reasoning`) make the
+   * earlier ones with the same key redundant; only the latest is replayed.
+   */
+  snapshotKey?: (event: Record<string, unknown>) => string | undefined;
+}
+
+const buffers = new Map<string, EventBuffer>();
+const encoder = new TextEncoder();
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+function broadcast(buffer: EventBuffer, frame: string) {
+  for (const listener of buffer.listeners) {
+    try {
+      listener.enqueue(encoder.encode(frame));
+    } catch {
+      leave(buffer, listener);
+    }
+  }
+}
+
+function leave(buffer: EventBuffer, listener: ReadableStreamDefaultController<Uint8Array>) {
+  buffer.listeners.delete(listener);
+  if (buffer.ended || buffer.listeners.size > 0 || buffer.graceTimer) return;
+  if (buffer.graceMs === 0) {
+    console.log("[sse] client disconnected, cancelling the stream");
+    buffer.cancelSource();
+    return;
+  }
+  buffer.graceTimer = setTimeout(() => {
+    console.log("[sse] no client reconnected, cancelling the stream");
+    buffer.cancelSource();
+  }, buffer.graceMs);
+  buffer.graceTimer.unref?.();
+}
+
+function finish(id: string, buffer: EventBuffer) {
+  if (buffer.ended) return;
+  buffer.ended = true;
+  if (buffer.graceTimer) clearTimeout(buffer.graceTimer);
+  buffer.graceTimer = null;
+  broadcast(buffer, END_FRAME);
+  for (const listener of buffer.listeners) {
+    try { listener.close(); } catch { /* Already closed */ }
+  }
+  buffer.listeners.clear();
+  setTimeout(() => buffers.delete(id), RETAIN_MS).unref?.();
+}
+
+function push(buffer: EventBuffer, data: string, options: ResumableOptions) {
+  let key: string | undefined;
+  try {
+    key = options.snapshotKey?.(JSON.parse(data));
+  } catch {
+    // Not JSON; never coalesced
+  }
+  const id = ++buffer.lastId;
+  const event = { id, frame: `id: ${id}\ndata: ${data}\n\n` };
+  if (key !== undefined) {
+    const previous = buffer.snapshots.get(key);
+    if (previous !== undefined) buffer.events[previous] = null;
+    buffer.snapshots.set(key, buffer.events.length);
+  }
+  buffer.events.push(event);
+  broadcast(buffer, event.frame);
+}
+
+/** Everything after `lastEventId`, then live events until the stream ends */
+function subscribe(buffer: EventBuffer, lastEventId: number): ReadableStream<Uint8Array> {
+  let self: ReadableStreamDefaultController<Uint8Array>;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      self = controller;
+      for (const event of buffer.events) {
+        if (event && event.id > lastEventId) controller.enqueue(encoder.encode(event.frame));
+      }
+      if (buffer.ended) {
+        controller.enqueue(encoder.encode(END_FRAME));
+        controller.close();
+        return;
+      }
+      buffer.listeners.add(controller);
+      if (buffer.graceTimer) clearTimeout(buffer.graceTimer);
+      buffer.graceTimer = null;
+    },
+    cancel() {
+      leave(buffer, self);
+    },
+  });
+}
+
+/**
+ * Buffers `source` (a route's `data:` frames) and returns the first
+ * subscriber as the response. The stream id goes out as `X-Stream-Id`.
+ */
+export function resumableResponse(
+  source: ReadableStream<Uint8Array>,
+  upstream: DetachableAbort,
+  options: ResumableOptions = {}
+): Response {
+  const id = randomUUID();
+  const reader = source.getReader();
+  const buffer: EventBuffer = {
+    events: [],
+    snapshots: new Map(),
+    lastId: 0,
+    ended: false,
+    listeners: new Set(),
+    graceTimer: null,
+    graceMs: upstream.resumable ? RECONNECT_GRACE_MS : 0,
+    // Runs the route's own cancel(), which aborts its upstream calls
+    cancelSource: () => {
+      reader.cancel().catch(() => {});
+      finish(id, buffer);
+    },
+  };
+  buffers.set(id, buffer);
+  // A client that won't reconnect keeps aborting upstream on disconnect
+  if (upstream.resumable) upstream.detach();
+
+  void (async () => {
+    const decoder = new TextDecoder();
+    let pending = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        let end = pending.indexOf("\n\n");
+        while (end !== -1) {
+          const data = pending
+            .slice(0, end)
+            .split("\n")
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).trimStart())
+            .join("\n");
+          if (data) push(buffer, data, options);
+          pending = pending.slice(end + 2);
+          end = pending.indexOf("\n\n");
+        }
+      }
+    } catch (error) {
+      console.warn("[sse] source stream failed:", error instanceof Error ? error.message : error);
+    } finally {
+      finish(id, buffer);
+    }
+  })();
+
+  return new Response(subscribe(buffer, 0), { headers: { ...SSE_HEADERS, "X-Stream-Id": id } });
+}
+
+/** Replays a buffered stream after `lastEventId`; null once it is unknown or expired */
+export function resumeStream(id: string, lastEventId: number): Response | null {
+  const buffer = buffers.get(id);
+  if (!buffer) return null;
+  return new Response(subscribe(buffer, lastEventId), { headers: { ...SSE_HEADERS, "X-Stream-Id": id } });
+}
+
+/** Stops generation for a stream the client no longer wants */
+export function cancelStream(id: string): boolean {
+  const buffer = buffers.get(id);
+  if (!buffer) return false;
+  buffer.cancelSource();
+  return true;
+}
@@ -0,0 +1,110 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AgentKind, AgentProfile, LineupEntry } from "@/lib/types";
+
+/**
+ * A user-defined debate agent, stored in the `custom_agents` table:
+ * id uuid, user_id uuid, name text, description text, color text, icon text,
+ * kind text ('debater' | 'judge'), system_prompt text, model text null,
+ * position int, created_at timestamptz.
+ */
+export interface CustomAgent {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string;
+  color: string;
+  icon: string;
+  kind: AgentKind;
+  system_prompt: string;
+  /** Null means the lineup's default model */
+  model: string | null;
+  /** Default slot in the turn order when added to a lineup */
+  position: number;
+  created_at: string;
+}
+
+export type CustomAgentInput = Omit<CustomAgent, "id" | "user_id" | "created_at">;
+
+export async function loadCustomAgents(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<CustomAgent[]> {
+  const { data, error } = await supabase
+    .from("custom_agents")
+    .select("*")
+    .eq("user_id", userId)
+    .order("position", { ascending: true });
+
+  if (error) {
+    console.warn("[agents] load error:", error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function saveCustomAgent(
+  supabase: SupabaseClient,
+  userId: string,
+  agent: CustomAgentInput,
+  agentId?: string
+): Promise<CustomAgent | null> {
+  const query = agentId
+    ? supabase.from("custom_agents").update(agent).eq("id", agentId)
+    : supabase.from("custom_agents").insert({ ...agent, user_id: userId });
+  const { data, error } = await query.select("*").single();
+
+  if (error) {
+    console.warn("[agents] save error:", error);
+    return null;
+  }
+  return data;
+}
+
+export async function deleteCustomAgent(
+  supabase: SupabaseClient,
+  agentId: string
+): Promise<boolean> {
+  const { error } = await supabase.from("custom_agents").delete().eq("id", agentId);
+
+  if (error) {
+    console.warn("[agents] delete error:", error);
+    return false;
+  }
+  return true;
+}
+
+/** The profile the UI draws for a saved agent */
+export function customAgentProfile(agent: CustomAgent): AgentProfile {
+  return {
+    id: agent.id,
+    name: agent.name,
+    description: agent.description,
+    color: agent.color,
+    icon: agent.icon,
+    kind: agent.kind,
+  };
+}
+
+/** The `/api/debate` lineup entry for a saved agent */
+export function toLineupEntry(agent: CustomAgent): LineupEntry {
+  return {
+    ...customAgentProfile(agent),
+    systemPrompt: agent.system_prompt,
+    model: agent.model || undefined,
+  };
+}
+
+/** Coerces a stored `metadata.agent` value back into a profile */
+export function readAgentProfile(value: unknown): AgentProfile | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== "string" || typeof raw.name !== "string") return null;
+  return {
+    id: raw.id,
+    name: raw.name,
+    description: typeof raw.description === "string" ? raw.description : "",
+    color: typeof raw.color === "string" ? raw.color : "#6b7280",
+    icon: typeof raw.icon === "string" ? raw.icon : "💬",
+    kind: raw.kind === "judge" ? "judge" : "debater",
+  };
+}
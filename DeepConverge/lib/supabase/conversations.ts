@@ -1,10 +1,15 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TokenUsage } from "@/lib/llm/types";
+import { addUsage, emptyUsage, readUsage } from "@/lib/llm/usage";
+
+/** "analysis" is the Advocate/Critic/Judge pipeline served by /api/debate */
+export type ConversationMode = "chat" | "debate" | "analysis";
 
 export interface Conversation {
   id: string;
   user_id: string;
   title: string;
-  mode: "chat" | "debate";
+  mode: ConversationMode;
   metadata: Record<string, unknown>;
   created_at: string;
   updated_at: string;
@@ -23,12 +28,13 @@ export interface DbMessage {
 export async function createConversation(
   supabase: SupabaseClient,
   userId: string,
-  mode: "chat" | "debate",
-  title: string
+  mode: ConversationMode,
+  title: string,
+  metadata?: Record<string, unknown>
 ): Promise<string | null> {
   const { data, error } = await supabase
     .from("conversations")
-    .insert({ user_id: userId, mode, title })
+    .insert({ user_id: userId, mode, title, metadata: metadata || {} })
     .select("id")
     .single();
 
@@ -69,7 +75,7 @@ export async function saveMessage(
 export async function loadConversations(
   supabase: SupabaseClient,
   userId: string,
-  mode?: "chat" | "debate"
+  mode?: ConversationMode
 ): Promise<Conversation[]> {
   let query = supabase
     .from("conversations")
@@ -106,6 +112,32 @@ export async function loadMessages(
   return data || [];
 }
 
+/** Sums `metadata.usage` over every message, keyed by conversation id */
+export async function loadConversationUsage(
+  supabase: SupabaseClient,
+  conversationIds: string[]
+): Promise<Record<string, TokenUsage>> {
+  if (conversationIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("messages")
+    .select("conversation_id, metadata")
+    .in("conversation_id", conversationIds);
+
+  if (error) {
+    console.warn("[conversations] loadUsage error:", error);
+    return {};
+  }
+
+  const totals: Record<string, TokenUsage> = {};
+  for (const row of data || []) {
+    const usage = readUsage(row.metadata?.usage);
+    if (!usage) continue;
+    totals[row.conversation_id] = addUsage(totals[row.conversation_id] ?? emptyUsage(), usage);
+  }
+  return totals;
+}
+
 export async function deleteConversation(
   supabase: SupabaseClient,
   conversationId: string
@@ -1,19 +1,59 @@
+import type { ReasoningEffort } from "./llm/types";
+import type { CheckedClaim } from "./fact-check";
+
+/** The built-in lineup; user-defined agents have their own ids */
 export type AgentRole = "advocate" | "critic" | "judge";
 
-export interface Agent {
-  id: AgentRole;
+/** Debaters speak every round; judges rule once, after the last round */
+export type AgentKind = "debater" | "judge";
+
+export interface AgentModelSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  reasoningEffort: ReasoningEffort;
+  /** Tried in order when `model` is rate limited, out of credits or down */
+  fallbackModels: string[];
+}
+
+/** What the UI needs to draw an agent */
+export interface AgentProfile {
+  id: string;
   name: string;
   description: string;
   color: string;
   icon: string;
+  kind: AgentKind;
+}
+
+export interface Agent extends AgentModelSettings, AgentProfile {
   systemPrompt: string;
 }
 
+/**
+ * One entry of a requested lineup: a built-in role, or a user-defined agent.
+ * An empty `model` means the lineup's default model.
+ */
+export type LineupEntry =
+  | AgentRole
+  | (AgentProfile & { systemPrompt: string; model?: string });
+
+/** One speaking slot in a debate; round 1 is the opening */
+export interface DebateTurn {
+  agent: Agent;
+  round: number;
+}
+
 export interface Message {
   id: string;
-  agent: AgentRole;
+  agent: AgentProfile;
   content: string;
   reasoning?: string;
+  round?: number;
+  /** Which parallel run produced it, in self-consistency mode */
+  run?: number;
+  /** The fact-checker's verdict on each claim, when fact-checking is on */
+  claims?: CheckedClaim[];
   timestamp: Date;
   isStreaming?: boolean;
 }
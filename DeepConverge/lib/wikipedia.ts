@@ -0,0 +1,58 @@
+import { withFixture } from "./llm/fixtures";
+import { isAbortError } from "./llm/abort";
+
+// Wikipedia full-text search, shared by debate research and fact-checking.
+// Results go through the fixture layer, so replayed runs stay offline.
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/** One footnote of an evidence-grounded debate turn: marker `[n]` and the result it cites */
+export interface Citation {
+  marker: number;
+  title: string;
+  url: string;
+}
+
+export function searchWikipedia(
+  query: string,
+  limit = 3,
+  signal?: AbortSignal
+): Promise<SearchResult[]> {
+  return withFixture("wikipedia", { query, limit }, () => fetchWikipedia(query, limit, signal));
+}
+
+async function fetchWikipedia(
+  query: string,
+  limit: number,
+  signal?: AbortSignal
+): Promise<SearchResult[]> {
+  try {
+    const url = `https://en.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(query)}&format=json&srlimit=${limit}&origin=*`;
+    const response = await fetch(url, { signal });
+    if (!response.ok) return [];
+
+    const data = await response.json();
+    const results: SearchResult[] = [];
+
+    if (data?.query?.search) {
+      for (const item of data.query.search) {
+        results.push({
+          title: item.title,
+          url: `https://en.wikipedia.org/wiki/${encodeURIComponent(item.title.replace(/ /g, "_"))}`,
+          snippet: (item.snippet || "").replace(/<[^>]+>/g, "").slice(0, 200),
+        });
+      }
+    }
+
+    return results;
+  } catch (error) {
+    // Rethrown so an aborted search is never recorded as "no results"
+    if (isAbortError(error)) throw error;
+    console.error("Wikipedia search error:", error);
+    return [];
+  }
+}
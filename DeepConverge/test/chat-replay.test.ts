@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { NextRequest } from "next/server";
+import { parseSseEvents } from "../lib/resumable-events";
+
+// Runs /api/chat end to end against the recordings in test/fixtures, with
+// no API key and no network. The fixtures were written by hand, as scripted
+// replies, so they only pin down the route's own behaviour. A prompt change
+// alters the request hash: re-record against a real provider with
+// LLM_FIXTURES=record, then update the expectations below.
+
+process.env.LLM_FIXTURES = "replay";
+process.env.LLM_FIXTURES_DIR = path.join(__dirname, "fixtures");
+
+async function chat(message: string, options: Record<string, unknown> = {}) {
+  // Imported after the env is set; the backend is picked on first use
+  const { POST } = await import("../app/api/chat/route");
+  const response = await POST(
+    new NextRequest("http://localhost/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message, ...options }),
+    })
+  );
+  const { events } = parseSseEvents(await response.text());
+  const data = events.filter((event) => event.event !== "end").map((event) => JSON.parse(event.data));
+  return { status: response.status, events: data };
+}
+
+test("a recorded chat replays without an API key", async () => {
+  const { status, events } = await chat("Is tea better than coffee?");
+  assert.equal(status, 200);
+  const done = events.find((event) => event.type === "done");
+  assert.equal(done?.content, "Tea, for most people: less caffeine and a gentler lift.");
+  assert.equal(events.some((event) => event.type === "error"), false);
+});
+
+test("a recorded convergent run goes judge, debaters, judge, executor, done", async () => {
+  const { events } = await chat("How should I plan a week of study for an exam?", {
+    convergentThinking: true,
+    seed: 7,
+  });
+  const roles = events.filter((event) => event.type === "convergent_log").map((event) => event.role);
+  assert.deepEqual(roles, ["judge", "debater_a", "debater_b", "judge", "executor"]);
+
+  const states = events.filter((event) => event.type === "convergence_state");
+  assert.equal(states.at(-1)?.status, "converged");
+  assert.equal(states[0]?.score, 88);
+
+  const done = events.at(-1);
+  assert.equal(done?.type, "done");
+  assert.match(done?.content, /^Block two 90-minute sessions a day/);
+  assert.equal(done?.content, events.find((event) => event.role === "executor")?.content);
+});
+
+test("a request that was never recorded fails instead of going online", async () => {
+  // The replay backend throws `no stream fixture`; the route reports it as a provider error
+  const { events } = await chat("Is coffee better than tea?");
+  const reply = events.filter((event) => event.type === "content").pop();
+  assert.match(reply?.content ?? "", /error connecting to the AI model/);
+  assert.equal(events.find((event) => event.type === "done")?.content, "");
+});
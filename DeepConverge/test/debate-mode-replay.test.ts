@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { NextRequest } from "next/server";
+import { parseSseEvents } from "../lib/resumable-events";
+
+// Replays a one-round classic debate from test/fixtures: research, the
+// moderator's intro, both openings, the scored verdict. Like the chat
+// fixtures these were written by hand; re-record against a real provider
+// with LLM_FIXTURES=record after changing a prompt.
+
+process.env.LLM_FIXTURES = "replay";
+process.env.LLM_FIXTURES_DIR = path.join(__dirname, "fixtures");
+
+async function debate(body: Record<string, unknown>) {
+  const { POST } = await import("../app/api/debate-mode/route");
+  const response = await POST(
+    new NextRequest("http://localhost/api/debate-mode", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+  const { events } = parseSseEvents(await response.text());
+  return events.filter((event) => event.event !== "end").map((event) => JSON.parse(event.data));
+}
+
+test("a recorded debate replays research, turns, verdict and complete in order", async () => {
+  const events = await debate({ question: "Is tea better than coffee?", rounds: 1, seed: 7 });
+  const sequence = events
+    .filter((event) => event.type !== "usage" && event.type !== "start")
+    .map((event) => (event.speaker ? `${event.speaker}:${event.type}` : event.type));
+  assert.deepEqual(sequence, [
+    "research-start",
+    "blue:research-done",
+    "red:research-done",
+    "moderator:done",
+    "blue:done",
+    "red:done",
+    "moderator:done",
+    "moderator:verdict",
+    "complete",
+  ]);
+
+  const research = events.filter((event) => event.type === "research-done");
+  assert.deepEqual(research.map((event) => event.sources), [
+    ["https://en.wikipedia.org/wiki/Health_effects_of_tea"],
+    ["https://en.wikipedia.org/wiki/Health_effects_of_coffee"],
+  ]);
+
+  const verdict = events.find((event) => event.type === "verdict");
+  assert.equal(verdict?.scorecard.winner, "blue");
+  assert.equal(events.find((event) => event.isVerdict && event.type === "done")?.fallback, undefined);
+  assert.equal(events.at(-1)?.seed, 7);
+});
+
+test("with web research off the debate skips research and plays the same turns", async () => {
+  process.env.LLM_WEB_RESEARCH = "off";
+  try {
+    const events = await debate({ question: "Is tea better than coffee?", rounds: 1, seed: 7 });
+    assert.equal(events.some((event) => event.type.startsWith("research")), false);
+    assert.deepEqual(
+      events.filter((event) => event.type === "done").map((event) => event.speaker),
+      ["moderator", "blue", "red", "moderator"]
+    );
+    assert.equal(events.at(-1)?.type, "complete");
+  } finally {
+    delete process.env.LLM_WEB_RESEARCH;
+  }
+});
@@ -0,0 +1,113 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createReasoningParser, TextChunk } from "../lib/llm/reasoning";
+
+// Recorded delta sequences from the backends we talk to, fed through the
+// parser one chunk at a time the way openai-compatible.ts does.
+
+function parse(deltas: Record<string, unknown>[]): TextChunk[] {
+  const parser = createReasoningParser();
+  const out: TextChunk[] = [];
+  for (const delta of [...deltas.map((delta) => parser.push(delta)), parser.flush()]) {
+    for (const chunk of delta) {
+      const last = out[out.length - 1];
+      if (last?.type === chunk.type) last.text += chunk.text;
+      else out.push({ ...chunk });
+    }
+  }
+  return out;
+}
+
+test("plain content passes through untouched", () => {
+  assert.deepEqual(parse([{ content: "Tea is " }, { content: "better." }]), [
+    { type: "content", text: "Tea is better." },
+  ]);
+});
+
+test("a <think> tag split across chunks is still recognised", () => {
+  assert.deepEqual(
+    parse([
+      { content: "<th" },
+      { content: "ink>Weigh caff" },
+      { content: "eine.</thi" },
+      { content: "nk>Tea wins." },
+    ]),
+    [
+      { type: "reasoning", text: "Weigh caffeine." },
+      { type: "content", text: "Tea wins." },
+    ]
+  );
+});
+
+test("reasoning_content deltas (llama.cpp, DeepSeek) are reasoning", () => {
+  assert.deepEqual(
+    parse([
+      { reasoning_content: "Compare sleep " },
+      { reasoning_content: "studies." },
+      { content: "Tea wins." },
+    ]),
+    [
+      { type: "reasoning", text: "Compare sleep studies." },
+      { type: "content", text: "Tea wins." },
+    ]
+  );
+});
+
+test("reasoning_details text and summary blocks are read; encrypted ones are skipped", () => {
+  assert.deepEqual(
+    parse([
+      { reasoning_details: [{ type: "reasoning.text", text: "Step one. " }] },
+      { reasoning_details: [{ type: "reasoning.encrypted", data: "c2VjcmV0" }] },
+      { reasoning_details: [{ type: "reasoning.summary", summary: "Step two." }] },
+      { content: "Done." },
+    ]),
+    [
+      { type: "reasoning", text: "Step one. Step two." },
+      { type: "content", text: "Done." },
+    ]
+  );
+});
+
+test("reasoning_details are ignored when reasoning is also sent", () => {
+  assert.deepEqual(
+    parse([{ reasoning: "Once.", reasoning_details: [{ type: "reasoning.text", text: "Once." }] }]),
+    [{ type: "reasoning", text: "Once." }]
+  );
+});
+
+test("an unclosed <think> block at the end of the stream stays reasoning", () => {
+  assert.deepEqual(parse([{ content: "<think>Still weighing" }, { content: " it up" }]), [
+    { type: "reasoning", text: "Still weighing it up" },
+  ]);
+});
+
+test("a tag cut off at the end of the stream is released as text", () => {
+  assert.deepEqual(parse([{ content: "Tea wins <thi" }]), [{ type: "content", text: "Tea wins <thi" }]);
+});
+
+test("text before a stray </think> is reasoning when no answer has gone out", () => {
+  assert.deepEqual(parse([{ content: "Weigh caffeine.</think>" }, { content: "Tea wins." }]), [
+    { type: "reasoning", text: "Weigh caffeine." },
+    { type: "content", text: "Tea wins." },
+  ]);
+});
+
+test("a stray </think> split across chunks still claims the text before it", () => {
+  assert.deepEqual(parse([{ content: "Weigh caffeine.</th" }, { content: "ink>Tea wins." }]), [
+    { type: "reasoning", text: "Weigh caffeine." },
+    { type: "content", text: "Tea wins." },
+  ]);
+});
+
+test("text streamed out before a stray </think> arrives stays content", () => {
+  // Known limitation: the first chunk went out as the answer before the tag was seen
+  assert.deepEqual(parse([{ content: "Weigh " }, { content: "caffeine.</think>Tea wins." }]), [
+    { type: "content", text: "Weigh caffeine.Tea wins." },
+  ]);
+});
+
+test("a stray </think> after the answer has started is dropped", () => {
+  assert.deepEqual(parse([{ content: "Tea wins." }, { content: " Clearly.</think>" }]), [
+    { type: "content", text: "Tea wins. Clearly." },
+  ]);
+});